@@ -1,15 +1,54 @@
-import { Component, OnInit, ViewChild, ElementRef, AfterViewInit } from '@angular/core';
+import { Component, OnInit, OnDestroy, ViewChild, ElementRef, AfterViewInit } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { FormsModule } from '@angular/forms';
-import { Skeleton } from 'src/lib/skeleton/Skeleton';
+import { SkeletonSet } from 'src/lib/skeleton/SkeletonSet';
+import { Skeleton, EventInfo, EventStep } from 'src/lib/skeleton/Skeleton';
 import { Polygon } from 'src/lib/skeleton/Polygon';
+import { PolygonNormalizer } from 'src/lib/skeleton/PolygonNormalizer';
+import { PolygonValidator, ValidationIssue } from 'src/lib/skeleton/PolygonValidator';
 import { Edge } from 'src/lib/skeleton/Edge';
+import { Face } from 'src/lib/skeleton/Face';
 import { Vector } from 'src/lib/skeleton/Vector';
+import { Angle } from 'src/lib/skeleton/Angle';
+import { RoofBuilder } from 'src/lib/roof/RoofBuilder';
+import { RoofMesh } from 'src/lib/roof/RoofMesh';
+import { ObjWriter } from 'src/lib/io/ObjWriter';
+import { StlWriter } from 'src/lib/io/StlWriter';
+import { GltfWriter } from 'src/lib/io/GltfWriter';
+import { DxfWriter } from 'src/lib/io/DxfWriter';
+import { Renderer } from 'src/lib/render/Renderer';
+import { CanvasRenderer } from 'src/lib/render/CanvasRenderer';
+import { SvgRenderer } from 'src/lib/render/SvgRenderer';
 
 interface SkeletonResults {
+  polygons: Polygon[];
+  skeletonSet: SkeletonSet;
   angleBisectorEdges: Edge[];
   wavefrontPolygons: Polygon[];
   skeletonEdges: Edge[];
+  faces: Face[];
+  endTime: number;  // When the last of the wavefront collapses
+}
+
+type ExportFormat = 'obj' | 'stl-ascii' | 'stl-binary' | 'gltf' | 'dxf';
+
+type Scene = 'empty' | 'polygon' | 'results' | 'debug';
+
+// Stepping through the events of the footprints' skeletons, one after another
+interface DebugSession {
+  skeletons: Skeleton[];
+  current: number;            // Index of the skeleton being stepped
+  steps: number;
+  last: EventStep | null;     // What the latest step did
+  pending: EventInfo[];       // Front of the current skeleton's queue, in order
+  pendingCount: number;       // Whole length of that queue
+}
+
+interface Bounds {
+  minX: number;
+  maxX: number;
+  minY: number;
+  maxY: number;
 }
 
 @Component({
@@ -19,24 +58,45 @@ interface SkeletonResults {
   templateUrl: './ixt-skeleton.component.html',
   styleUrls: ['./ixt-skeleton.component.scss']
 })
-export class IxtSkeletonComponent implements OnInit, AfterViewInit {
+export class IxtSkeletonComponent implements OnInit, AfterViewInit, OnDestroy {
   @ViewChild('canvas') canvasRef!: ElementRef<HTMLCanvasElement>;
-  private ctx!: CanvasRenderingContext2D;
+  private renderer!: Renderer;
 
   // Default vertices for a 8x5 rectangle
   vertexInput: string = '{(0,0),(8,0),(8,5),(0,5)}';
   errors: string[] = [];
 
+  // Roof export settings
+  roofPitch: number = 30; // Degrees
+  exportFormat: ExportFormat = 'obj';
+  readonly exportFormats: { id: ExportFormat; label: string }[] = [
+    { id: 'obj', label: 'Wavefront OBJ' },
+    { id: 'stl-ascii', label: 'STL (ASCII)' },
+    { id: 'stl-binary', label: 'STL (binary)' },
+    { id: 'gltf', label: 'glTF 2.0' },
+    { id: 'dxf', label: 'DXF (R12)' }
+  ];
+
   // Drawing constants
   private readonly COLORS = {
     original: '#FF0000',
     wavefront: '#0000FF',
     intersection: '#FFFF00',
     bisector: '#800080',
-    text: '#000000'
+    issue: '#FF8C00',
+    text: '#000000',
+    selection: '#666666',
+    processed: '#00A000',
+    skipped: '#999999',
+    pending: '#00A0C0'
   };
 
   private readonly VERTEX_SIZE = 6; // Size in screen pixels
+  private readonly EDGE_HIT_DISTANCE = 4; // Screen pixels from an edge that still click it
+  private readonly ZOOM_SPEED = 0.002; // Zoom per pixel of wheel movement
+  private readonly MIN_SELECTION = 4; // Screen pixels a selection must span
+  private readonly PLAY_DURATION = 5000; // Milliseconds to play the wavefront from start to end
+  readonly PENDING_SHOWN = 50; // Pending events listed by the debugger
 
   // Transform state
   private modelTransform = {
@@ -45,29 +105,68 @@ export class IxtSkeletonComponent implements OnInit, AfterViewInit {
     offsetY: 0
   };
 
+  // What the view shows
+  private scene: Scene = 'empty';
+  private sceneRings: [number, number][][] = [];
+  private sceneInput = '';  // The input the scene rings were read from or written to
+
+  // Navigation: the view is fitted to the input once and kept, however the
+  // input or the skeleton change, until fitted again
+  private viewFitted = false;
+  private panning: { x: number; y: number } | null = null;  // Last screen position while panning
+  private selecting: { start: { x: number; y: number }; end: { x: number; y: number } } | null = null;
+  private selection: Bounds | null = null;  // In model coordinates
+
+  // Vertex editing: the vertex being dragged, and the pending live update
+  private dragging: { ring: number; index: number } | null = null;
+  private updateFrame: number | null = null;
+  cursor = 'default';
+
   // Skeleton computation results
   private currentResults: SkeletonResults | null = null;
 
+  // Propagation time shown: the wavefront is drawn as it stands then, with
+  // the skeleton it has traced so far
+  time = 0;
+  playing = false;
+  private playFrame: number | null = null;
+
+  // Event debugger
+  private debugSession: DebugSession | null = null;
+
+  // Problems found in the input, with the polygon they refer to
+  private issues: { polygon: Polygon; issue: ValidationIssue }[] = [];
+
   ngOnInit() {
     this.validateInput();
   }
 
   ngAfterViewInit() {
     const canvas = this.canvasRef.nativeElement;
-    this.ctx = canvas.getContext('2d')!;
+    this.renderer = new CanvasRenderer(canvas.getContext('2d')!);
     this.drawOriginalPolygon();
   }
 
+  ngOnDestroy() {
+    if (this.updateFrame !== null) {
+      cancelAnimationFrame(this.updateFrame);
+    }
+    this.pause();
+  }
+
   clearView() {
-    this.ctx.clearRect(0, 0, this.canvasRef.nativeElement.width, this.canvasRef.nativeElement.height);
+    this.pause();
+    this.debugSession = null;
+    this.scene = 'empty';
+    this.renderer.clear();
     this.errors = [];
   }
 
   private validateInput(): boolean {
     this.errors = [];
     try {
-      const vertices = this.parseVertices(this.vertexInput);
-      if (vertices.length < 3) {
+      const rings = this.parseRings(this.vertexInput);
+      if (rings.some(vertices => vertices.length < 3)) {
         this.errors.push('Polygon must have at least 3 vertices');
         return false;
       }
@@ -78,6 +177,33 @@ export class IxtSkeletonComponent implements OnInit, AfterViewInit {
     }
   }
 
+  private parseRings(input: string): [number, number][][] {
+    // Each {...} group is a ring, e.g. {(0,0),(9,0),(9,9),(0,9)}{(3,3),(3,6),(6,6),(6,3)}
+    const groups = input.match(/\{[^}]*\}/g) ?? [input];
+    return groups.map(group => this.parseVertices(group));
+  }
+
+  private parseFootprints(input: string): [number, number][][][] {
+    // A counterclockwise ring starts a new footprint, a clockwise ring is a
+    // hole of the footprint before it
+    const footprints: [number, number][][][] = [];
+    this.parseRings(input).forEach(ring => {
+      if (this.signedArea(ring) < 0 && footprints.length > 0) {
+        footprints[footprints.length - 1].push(ring);
+      } else {
+        footprints.push([ring]);
+      }
+    });
+    return footprints;
+  }
+
+  private signedArea(ring: [number, number][]): number {
+    return ring.reduce((sum, [x1, y1], i) => {
+      const [x2, y2] = ring[(i + 1) % ring.length];
+      return sum + x1 * y2 - x2 * y1;
+    }, 0) / 2;
+  }
+
   private parseVertices(input: string): [number, number][] {
     // Remove spaces and brackets
     const cleaned = input.replace(/\s/g, '').replace('{', '').replace('}', '');
@@ -102,10 +228,38 @@ export class IxtSkeletonComponent implements OnInit, AfterViewInit {
     if (!this.validateInput()) return;
 
     this.clearView();
-    const vertices = this.parseVertices(this.vertexInput);
-    
-    // Calculate model bounds
-    const bounds = this.calculateBounds(vertices);
+    this.issues = [];
+    this.showInput('polygon');
+  }
+
+  zoomToFit() {
+    if (this.scene === 'empty') return;
+    this.fitView(this.calculateBounds(this.sceneRings.flat()));
+    this.redraw();
+  }
+
+  zoomToSelection() {
+    if (!this.selection) return;
+    this.fitView(this.selection);
+    this.selection = null;
+    this.redraw();
+  }
+
+  get hasSelection(): boolean {
+    return this.selection !== null;
+  }
+
+  private showInput(scene: Scene) {
+    // The scene keeps the rings it was read from, whatever the input becomes
+    this.sceneRings = this.parseRings(this.vertexInput);
+    this.sceneInput = this.vertexInput;
+    if (!this.viewFitted) {
+      this.fitView(this.calculateBounds(this.sceneRings.flat()));
+    }
+    this.show(scene);
+  }
+
+  private fitView(bounds: Bounds) {
     const viewportPadding = 40;
     
     // Setup viewport transform
@@ -123,31 +277,62 @@ export class IxtSkeletonComponent implements OnInit, AfterViewInit {
       offsetX: this.canvasRef.nativeElement.width / 2 - scale * (bounds.minX + (bounds.maxX - bounds.minX) / 2),
       offsetY: this.canvasRef.nativeElement.height / 2 + scale * (bounds.minY + (bounds.maxY - bounds.minY) / 2)
     };
+    this.viewFitted = true;
+  }
 
-    // Draw polygon edges
-    this.ctx.strokeStyle = this.COLORS.original;
-    this.ctx.lineWidth = 1;  // 1 pixel in screen space
-    this.ctx.beginPath();
-    
-    vertices.forEach((vertex, i) => {
-      const screenPos = this.modelToScreen(vertex[0], vertex[1]);
-      if (i === 0) {
-        this.ctx.moveTo(screenPos.x, screenPos.y);
-      } else {
-        this.ctx.lineTo(screenPos.x, screenPos.y);
-      }
-    });
-    
-    // Close the polygon
-    const firstPos = this.modelToScreen(vertices[0][0], vertices[0][1]);
-    this.ctx.lineTo(firstPos.x, firstPos.y);
-    this.ctx.stroke();
-
-    // Draw vertices
-    vertices.forEach(([x, y]) => {
-      this.drawVertex(x, y, this.COLORS.original);
-      this.drawCoordinateText(x, y);
+  private show(scene: Scene) {
+    this.scene = scene;
+    this.redraw();
+  }
+
+  private redraw() {
+    // The scene, and on the canvas only, the selection being made or made
+    this.render(this.renderer);
+
+    const corners = this.selecting
+      ? [this.selecting.start, this.selecting.end]
+      : this.selection
+        ? [this.modelToScreen(this.selection.minX, this.selection.minY), this.modelToScreen(this.selection.maxX, this.selection.maxY)]
+        : null;
+    if (!corners || this.scene === 'empty') return;
+
+    const [a, b] = corners;
+    this.renderer.beginLayer('selection');
+    this.renderer.polyline([a, { x: b.x, y: a.y }, b, { x: a.x, y: b.y }], { color: this.COLORS.selection, width: 1 }, true);
+    this.renderer.endLayer();
+  }
+
+  private render(renderer: Renderer) {
+    // The canvas and exported documents draw the same scene, layer by layer
+    renderer.clear();
+    if (this.scene === 'empty') return;
+
+    this.drawPolygon(renderer);
+    if (this.issues.length > 0) {
+      this.drawIssues(renderer);
+    }
+    if (this.scene === 'results' && this.currentResults) {
+      this.drawResults(renderer, this.currentResults);
+    }
+    if (this.scene === 'debug' && this.debugSession) {
+      this.drawDebugSession(renderer, this.debugSession);
+    }
+  }
+
+  private drawPolygon(renderer: Renderer) {
+    const rings = this.sceneRings;
+
+    renderer.beginLayer('original');
+    rings.forEach(vertices => {
+      // 1 pixel in screen space
+      renderer.polyline(vertices.map(([x, y]) => this.modelToScreen(x, y)), { color: this.COLORS.original, width: 1 }, true);
+      vertices.forEach(([x, y]) => this.drawVertex(renderer, x, y, this.COLORS.original));
     });
+    renderer.endLayer();
+
+    renderer.beginLayer('labels');
+    rings.flat().forEach(([x, y]) => this.drawCoordinateText(renderer, x, y));
+    renderer.endLayer();
   }
 
   private modelToScreen(x: number, y: number) {
@@ -157,30 +342,26 @@ export class IxtSkeletonComponent implements OnInit, AfterViewInit {
     };
   }
 
-  private drawVertex(x: number, y: number, color: string) {
+  private drawVertex(renderer: Renderer, x: number, y: number, color: string) {
     const screenPos = this.modelToScreen(x, y);
     
-    this.ctx.fillStyle = color;
-    this.ctx.fillRect(
+    renderer.rect(
       screenPos.x - this.VERTEX_SIZE/2,
       screenPos.y - this.VERTEX_SIZE/2,
       this.VERTEX_SIZE,
-      this.VERTEX_SIZE
+      this.VERTEX_SIZE,
+      color
     );
   }
 
-  private drawCoordinateText(x: number, y: number) {
+  private drawCoordinateText(renderer: Renderer, x: number, y: number) {
     const screenPos = this.modelToScreen(x, y);
     const text = `(${x.toFixed(1)},${y.toFixed(1)})`;
     
-    this.ctx.fillStyle = this.COLORS.text;
-    this.ctx.font = '12px monospace';
-    this.ctx.textAlign = 'left';
-    this.ctx.textBaseline = 'middle';
-    this.ctx.fillText(text, screenPos.x + 8, screenPos.y);
+    renderer.text(text, { x: screenPos.x + 8, y: screenPos.y }, { color: this.COLORS.text, size: 12, align: 'left' });
   }
 
-  private calculateBounds(vertices: [number, number][]) {
+  private calculateBounds(vertices: [number, number][]): Bounds {
     const xs = vertices.map(v => v[0]);
     const ys = vertices.map(v => v[1]);
     return {
@@ -191,135 +372,542 @@ export class IxtSkeletonComponent implements OnInit, AfterViewInit {
     };
   }
 
-  private drawResults() {
-    if (!this.currentResults || !this.ctx) return;
+  private drawResults(renderer: Renderer, results: SkeletonResults) {
+    const { angleBisectorEdges, faces, skeletonEdges } = results;
 
-    // Clear the canvas
-    this.clearView();
-
-    // Draw the original polygon first
-    this.drawOriginalPolygon();
-
-    const { angleBisectorEdges, wavefrontPolygons, skeletonEdges } = this.currentResults;
-
-    // Draw wavefront polygons
-    this.ctx.strokeStyle = this.COLORS.wavefront;
-    this.ctx.lineWidth = 1;
-    wavefrontPolygons.forEach(polygon => {
-      this.ctx.beginPath();
-      polygon.vertices.forEach((vertex, i) => {
-        const pos = this.modelToScreen(vertex.position.x, vertex.position.y);
-        if (i === 0) {
-          this.ctx.moveTo(pos.x, pos.y);
-        } else {
-          this.ctx.lineTo(pos.x, pos.y);
-        }
-      });
-      // Close the polygon
-      if (polygon.vertices.length > 0) {
-        const firstPos = this.modelToScreen(
-          polygon.vertices[0].position.x,
-          polygon.vertices[0].position.y
-        );
-        this.ctx.lineTo(firstPos.x, firstPos.y);
-      }
-      this.ctx.stroke();
+    // Draw the wavefront at the chosen time, where it crosses each face
+    renderer.beginLayer('wavefronts');
+    faces.flatMap(face => face.frontAt(this.time)).forEach(([start, end]) => {
+      const points = [this.modelToScreen(start.x, start.y), this.modelToScreen(end.x, end.y)];
+      renderer.polyline(points, { color: this.COLORS.wavefront, width: 1 });
     });
+    renderer.endLayer();
 
     // Draw angle bisectors
-    this.ctx.strokeStyle = this.COLORS.bisector;
-    this.ctx.lineWidth = 1;
+    renderer.beginLayer('bisectors');
     angleBisectorEdges.forEach(edge => {
       const start = this.modelToScreen(edge.v1.position.x, edge.v1.position.y);
       const end = this.modelToScreen(edge.v2.position.x, edge.v2.position.y);
-      
-      this.ctx.beginPath();
-      this.ctx.moveTo(start.x, start.y);
-      this.ctx.lineTo(end.x, end.y);
-      this.ctx.stroke();
+      renderer.polyline([start, end], { color: this.COLORS.bisector, width: 1 });
 
       // Draw small vertex at start point
-      this.ctx.fillStyle = this.COLORS.bisector;
-      this.ctx.fillRect(
+      renderer.rect(
         start.x - this.VERTEX_SIZE/4,
         start.y - this.VERTEX_SIZE/4,
         this.VERTEX_SIZE/2,
-        this.VERTEX_SIZE/2
+        this.VERTEX_SIZE/2,
+        this.COLORS.bisector
       );
     });
+    renderer.endLayer();
 
-    // Draw skeleton edges
-    this.ctx.strokeStyle = this.COLORS.original;
-    this.ctx.lineWidth = 2;
+    // Draw skeleton edges, as far as the wavefront has traced them
+    renderer.beginLayer('skeleton');
     skeletonEdges.forEach(edge => {
+      const [first, last] = edge.v1.time <= edge.v2.time ? [edge.v1, edge.v2] : [edge.v2, edge.v1];
+      if (first.time > this.time) return;
+
+      const reached = last.time <= this.time;
+      const tip = reached ? last.position :
+        first.position.plus(last.position.minus(first.position).scale((this.time - first.time) / (last.time - first.time)));
+      const start = this.modelToScreen(first.position.x, first.position.y);
+      const end = this.modelToScreen(tip.x, tip.y);
+      renderer.polyline([start, end], { color: this.COLORS.original, width: 2 });
+
+      // Draw intersection points
+      if (reached) {
+        renderer.circle(end, this.VERTEX_SIZE/3, { fill: this.COLORS.intersection });
+      }
+    });
+    renderer.endLayer();
+  }
+
+  private drawDebugSession(renderer: Renderer, session: DebugSession) {
+    // The skeleton so far and the wavefront where it stands, then the
+    // events of the last step, and the next one to be taken
+    renderer.beginLayer('skeleton');
+    session.skeletons.flatMap(skeleton => skeleton.getSkeletonEdges()).forEach(edge => {
       const start = this.modelToScreen(edge.v1.position.x, edge.v1.position.y);
       const end = this.modelToScreen(edge.v2.position.x, edge.v2.position.y);
-      
-      this.ctx.beginPath();
-      this.ctx.moveTo(start.x, start.y);
-      this.ctx.lineTo(end.x, end.y);
-      this.ctx.stroke();
+      renderer.polyline([start, end], { color: this.COLORS.original, width: 2 });
+    });
+    renderer.endLayer();
 
-      // Draw intersection points
-      this.ctx.fillStyle = this.COLORS.intersection;
-      this.ctx.beginPath();
-      this.ctx.arc(end.x, end.y, this.VERTEX_SIZE/3, 0, 2 * Math.PI);
-      this.ctx.fill();
+    renderer.beginLayer('wavefronts');
+    session.skeletons[session.current]?.getFront().forEach(polygon => {
+      const points = polygon.vertices.map(vertex => this.modelToScreen(vertex.position.x, vertex.position.y));
+      renderer.polyline(points, { color: this.COLORS.wavefront, width: 1 }, true);
     });
+    renderer.endLayer();
+
+    renderer.beginLayer('events');
+    session.last?.events.forEach(event =>
+      this.drawEvent(renderer, event, event.skipped ? this.COLORS.skipped : this.COLORS.processed));
+    if (session.pending.length > 0) {
+      this.drawEvent(renderer, session.pending[0], this.COLORS.pending);
+    }
+    renderer.endLayer();
+  }
+
+  private drawEvent(renderer: Renderer, event: EventInfo, color: string) {
+    // The edges and vertices involved, where they are at the event's time
+    event.edges.forEach(({ start, end }) => {
+      const points = [this.modelToScreen(start.x, start.y), this.modelToScreen(end.x, end.y)];
+      renderer.polyline(points, { color, width: 3 });
+    });
+    event.vertices.forEach(({ id, position }) => {
+      const pos = this.modelToScreen(position.x, position.y);
+      renderer.circle(pos, this.VERTEX_SIZE / 2, { fill: color });
+      renderer.text(`v${id}`, { x: pos.x + this.VERTEX_SIZE, y: pos.y - this.VERTEX_SIZE }, { color, size: 11, align: 'left' });
+    });
+    const point = this.modelToScreen(event.point.x, event.point.y);
+    renderer.circle(point, 2 * this.VERTEX_SIZE, { stroke: { color, width: 2 } });
+  }
+
+  private drawIssues(renderer: Renderer) {
+    renderer.beginLayer('issues');
+    this.issues.forEach(({ polygon, issue }, i) => {
+      // Orientation and placement concern a whole ring, so outline it
+      if (issue.kind === 'orientation' || issue.kind === 'misplaced-hole') {
+        const points = polygon.getRings()[issue.ring].vertices
+          .map(vertex => this.modelToScreen(vertex.position.x, vertex.position.y));
+        renderer.polyline(points, { color: this.COLORS.issue, width: 3 }, true);
+      }
+
+      // Circle the location and number it as in the error panel
+      const pos = this.modelToScreen(issue.point.x, issue.point.y);
+      renderer.circle(pos, 2 * this.VERTEX_SIZE, { stroke: { color: this.COLORS.issue, width: 2 } });
+      renderer.text(String(i + 1), { x: pos.x - 2 * this.VERTEX_SIZE - 2, y: pos.y },
+        { color: this.COLORS.issue, size: 12, align: 'right' });
+    });
+    renderer.endLayer();
+  }
+
+  onCanvasMouseDown(event: MouseEvent) {
+    if (this.scene === 'empty' || !this.readEditedInput()) return;
+
+    const point = this.eventToScreen(event);
+    if (event.shiftKey) {
+      // Shift-drag marks a region to zoom to
+      this.selecting = { start: point, end: point };
+      event.preventDefault();
+      return;
+    }
+
+    const vertex = this.findVertex(point);
+    if (vertex && event.altKey) {
+      // Alt-click deletes a vertex, as long as its ring keeps three
+      const ring = this.sceneRings[vertex.ring];
+      if (ring.length <= 3) {
+        this.errors = ['A ring must keep at least 3 vertices'];
+        return;
+      }
+      ring.splice(vertex.index, 1);
+      this.edited();
+    } else if (vertex) {
+      this.dragging = vertex;
+    } else if (this.findEdge(point)) {
+      // A click on an edge inserts a vertex there, which can be dragged on
+      const edge = this.findEdge(point)!;
+      this.sceneRings[edge.ring].splice(edge.index + 1, 0, this.roundToPixel(this.screenToModel(point.x, point.y)));
+      this.dragging = { ring: edge.ring, index: edge.index + 1 };
+      this.edited();
+    } else {
+      // Dragging the background pans
+      this.panning = point;
+      this.cursor = 'grabbing';
+    }
+    event.preventDefault();
+  }
+
+  onCanvasMouseMove(event: MouseEvent) {
+    if (this.scene === 'empty') return;
+
+    const point = this.eventToScreen(event);
+    if (this.selecting) {
+      this.selecting.end = point;
+      this.redraw();
+    } else if (this.panning) {
+      this.modelTransform.offsetX += point.x - this.panning.x;
+      this.modelTransform.offsetY += point.y - this.panning.y;
+      this.panning = point;
+      this.redraw();
+    } else if (this.dragging) {
+      const { ring, index } = this.dragging;
+      this.sceneRings[ring][index] = this.roundToPixel(this.screenToModel(point.x, point.y));
+      this.edited();
+    } else {
+      this.cursor = this.findVertex(point) ? 'move' : this.findEdge(point) ? 'copy' : 'default';
+    }
+  }
+
+  onCanvasMouseUp() {
+    if (this.selecting) {
+      // Too small a box is a stray click, which drops the selection
+      const { start, end } = this.selecting;
+      const [x1, y1] = this.screenToModel(start.x, start.y);
+      const [x2, y2] = this.screenToModel(end.x, end.y);
+      const large = Math.abs(end.x - start.x) >= this.MIN_SELECTION && Math.abs(end.y - start.y) >= this.MIN_SELECTION;
+      this.selection = large
+        ? { minX: Math.min(x1, x2), maxX: Math.max(x1, x2), minY: Math.min(y1, y2), maxY: Math.max(y1, y2) }
+        : null;
+      this.selecting = null;
+      this.redraw();
+    }
+    if (this.panning) {
+      this.panning = null;
+      this.cursor = 'default';
+    }
+    this.dragging = null;
+  }
+
+  onCanvasWheel(event: WheelEvent) {
+    if (this.scene === 'empty') return;
+    event.preventDefault();
+
+    // Zoom around the cursor: the model point under it stays put
+    const point = this.eventToScreen(event);
+    const [x, y] = this.screenToModel(point.x, point.y);
+    const scale = this.modelTransform.scale * Math.exp(-event.deltaY * this.ZOOM_SPEED);
+    this.modelTransform = {
+      scale,
+      offsetX: point.x - scale * x,
+      offsetY: point.y + scale * y
+    };
+    this.redraw();
+  }
+
+  private readEditedInput(): boolean {
+    // Text typed since the scene was drawn replaces its rings, in place
+    if (this.vertexInput === this.sceneInput) return true;
+    if (!this.validateInput()) return false;
+    this.sceneRings = this.parseRings(this.vertexInput);
+    this.sceneInput = this.vertexInput;
+    this.redraw();
+    return true;
+  }
+
+  private edited() {
+    // Write the rings back to the input, then redraw, or rebuild the
+    // skeleton if it was shown, once per frame however often the mouse moves
+    this.vertexInput = this.formatRings(this.sceneRings);
+    this.sceneInput = this.vertexInput;
+    if (this.updateFrame !== null) return;
+
+    this.updateFrame = requestAnimationFrame(() => {
+      this.updateFrame = null;
+      if (this.scene === 'debug') {
+        this.startDebugger();
+      } else if (this.scene === 'results' || this.issues.length > 0) {
+        this.computeSkeleton();
+      } else {
+        this.redraw();
+      }
+    });
+  }
+
+  private formatRings(rings: [number, number][][]): string {
+    // As typed: one {(x,y),...} group per ring
+    return rings.map(ring => `{${ring.map(([x, y]) => `(${x},${y})`).join(',')}}`).join('');
+  }
+
+  private eventToScreen(event: MouseEvent) {
+    // The canvas is stretched to its panel, so scale to its own pixels
+    const canvas = this.canvasRef.nativeElement;
+    const bounds = canvas.getBoundingClientRect();
+    return {
+      x: (event.clientX - bounds.left) * canvas.width / bounds.width,
+      y: (event.clientY - bounds.top) * canvas.height / bounds.height
+    };
+  }
+
+  private screenToModel(x: number, y: number): [number, number] {
+    const { scale, offsetX, offsetY } = this.modelTransform;
+    return [(x - offsetX) / scale, (offsetY - y) / scale];
+  }
+
+  private roundToPixel([x, y]: [number, number]): [number, number] {
+    // To what a pixel can tell apart, to keep the input readable
+    const digits = Math.min(6, Math.max(0, Math.ceil(Math.log10(this.modelTransform.scale))));
+    const round = (value: number) => Number(value.toFixed(digits)) || 0;
+    return [round(x), round(y)];
+  }
+
+  private findVertex(point: { x: number; y: number }): { ring: number; index: number } | null {
+    let nearest: { ring: number; index: number } | null = null;
+    let nearestDistance = this.VERTEX_SIZE;
+    this.sceneRings.forEach((vertices, ring) => vertices.forEach(([x, y], index) => {
+      const pos = this.modelToScreen(x, y);
+      const distance = Math.hypot(pos.x - point.x, pos.y - point.y);
+      if (distance <= nearestDistance) {
+        nearest = { ring, index };
+        nearestDistance = distance;
+      }
+    }));
+    return nearest;
+  }
+
+  private findEdge(point: { x: number; y: number }): { ring: number; index: number } | null {
+    // Edge i runs from vertex i to vertex i + 1
+    let nearest: { ring: number; index: number } | null = null;
+    let nearestDistance = this.EDGE_HIT_DISTANCE;
+    this.sceneRings.forEach((vertices, ring) => vertices.forEach(([x1, y1], index) => {
+      const [x2, y2] = vertices[(index + 1) % vertices.length];
+      const a = this.modelToScreen(x1, y1);
+      const b = this.modelToScreen(x2, y2);
+      const lengthSquared = (b.x - a.x) ** 2 + (b.y - a.y) ** 2;
+      const t = lengthSquared === 0 ? 0 :
+        Math.max(0, Math.min(1, ((point.x - a.x) * (b.x - a.x) + (point.y - a.y) * (b.y - a.y)) / lengthSquared));
+      const distance = Math.hypot(a.x + t * (b.x - a.x) - point.x, a.y + t * (b.y - a.y) - point.y);
+      if (distance <= nearestDistance) {
+        nearest = { ring, index };
+        nearestDistance = distance;
+      }
+    }));
+    return nearest;
+  }
+
+  private readPolygons(): Polygon[] | null {
+    // Clear previous errors
+    this.errors = [];
+    this.issues = [];
+    
+    // Parse input vertices
+    const footprints = this.parseFootprints(this.vertexInput);
+
+    // Create one polygon per footprint, cleaned of repeated points and
+    // wrongly oriented rings
+    const polygons = footprints.map(([outer, ...holes]) => {
+      const polygon = new Polygon(outer.map(([x, y]) => new Vector(x, y)));
+      holes.forEach(hole => polygon.addHole(hole.map(([x, y]) => new Vector(x, y))));
+      return PolygonNormalizer.normalize(polygon).polygon;
+    });
+
+    // Show what is wrong with the input instead of failing inside the build
+    this.issues = polygons.flatMap(polygon =>
+      PolygonValidator.validate(polygon).map(issue => ({ polygon, issue })));
+    if (this.issues.length > 0) {
+      this.pause();
+      this.currentResults = null;
+      this.debugSession = null;
+      this.showInput('polygon');
+      this.errors = this.issues.map(({ issue }, i) => `Issue ${i + 1}: ${issue.message}`);
+      return null;
+    }
+    return polygons;
   }
 
   computeSkeleton() {
     try {
-      // Clear previous errors
-      this.errors = [];
-      
-      // Parse input vertices
-      console.log("Parsing vertex input:", this.vertexInput);
-      const vertices = this.parseVertices(this.vertexInput);
-      console.log("Parsed vertices:", vertices);
-  
-      // Create polygon
-      const polygon = new Polygon(vertices.map(([x, y]) => new Vector(x, y)));
-      console.log("Created polygon with", polygon.vertices.length, "vertices");
-  
-      // Build skeleton
-      console.log("Building skeleton...");
-      const skeleton = Skeleton.build(polygon);
-  
-      // Get debug logs
-      console.log("Debug logs from skeleton construction:");
-      skeleton.getDebugLog().forEach(log => console.log(log));
+      this.debugSession = null;
+      const polygons = this.readPolygons();
+      if (!polygons) return;
   
-      // Get construction artifacts
-      const angleBisectorEdges = skeleton.getAngleBisectors();
-      const wavefrontPolygons = skeleton.getWavefrontPolygons();
-      const skeletonEdges = skeleton.getSkeletonEdges();
+      // Build skeletons
+      const skeletonSet = SkeletonSet.build(polygons);
+      const skeletons = [...skeletonSet.getSkeletons().values()];
   
-      // Log results
-      console.log("\nConstruction Results:");
-      console.log(`Number of angle bisectors: ${angleBisectorEdges.length}`);
-      console.log(`Number of wavefront polygons: ${wavefrontPolygons.length}`);
-      console.log(`Number of skeleton edges: ${skeletonEdges.length}`);
+      // Get construction artifacts of all components
+      const angleBisectorEdges = skeletons.flatMap(skeleton => skeleton.getAngleBisectors());
+      const wavefrontPolygons = skeletons.flatMap(skeleton => skeleton.getWavefrontPolygons());
+      const skeletonEdges = skeletonSet.getSkeletonEdges();
+      const faces = skeletons.flatMap(skeleton => skeleton.getFaces());
+      const endTime = Math.max(0, ...faces.flatMap(face => face.times));
   
+      // Keep the chosen time across edits, or follow the end if it was
+      // there, as it is for a skeleton computed afresh
+      const previous = this.currentResults;
+      this.time = previous && this.time < previous.endTime ? Math.min(this.time, endTime) : endTime;
+
       // Store results for visualization
       this.currentResults = {
+        polygons,
+        skeletonSet,
         angleBisectorEdges,
         wavefrontPolygons,
-        skeletonEdges
+        skeletonEdges,
+        faces,
+        endTime
       };
   
       // Draw the results
-      this.drawResults();
+      this.showInput('results');
   
     } catch (error: any) {
       console.error("Error in skeleton computation:", error);
       this.errors.push(error.message);
-      
-      // If we have a stack trace, add it to the errors
-      if (error.stack) {
-        this.errors.push("Stack trace: " + error.stack);
+    }
+  }
+
+  startDebugger() {
+    // Set up the skeletons with their events queued, none processed yet
+    try {
+      this.pause();
+      const polygons = this.readPolygons();
+      if (!polygons) return;
+
+      const skeletons = polygons.map(polygon => Skeleton.start(polygon));
+      this.debugSession = {
+        skeletons, current: 0, steps: 0, last: null,
+        pending: skeletons[0].getPendingEvents(this.PENDING_SHOWN),
+        pendingCount: skeletons[0].getPendingCount()
+      };
+      this.showInput('debug');
+    } catch (error: any) {
+      console.error("Error in event debugger:", error);
+      this.errors.push(error.message);
+    }
+  }
+
+  stepEvent() {
+    const session = this.debugSession;
+    if (!session || this.debugComplete) return;
+
+    // A footprint whose queue is done passes on to the next one
+    let step = session.skeletons[session.current].step();
+    while (!step && session.current + 1 < session.skeletons.length) {
+      session.current++;
+      step = session.skeletons[session.current].step();
+    }
+
+    session.last = step;
+    const skeleton = session.skeletons[session.current];
+    session.pending = step ? skeleton.getPendingEvents(this.PENDING_SHOWN) : [];
+    session.pendingCount = step ? skeleton.getPendingCount() : 0;
+    if (step) {
+      session.steps++;
+    }
+    this.errors = step?.error ? [step.error] : [];
+    this.redraw();
+  }
+
+  stopDebugger() {
+    this.debugSession = null;
+    if (this.scene === 'debug') {
+      this.show('polygon');
+    }
+  }
+
+  get debugging(): DebugSession | null {
+    return this.debugSession;
+  }
+
+  get debugComplete(): boolean {
+    return this.debugSession !== null && this.debugSession.skeletons.every(skeleton => skeleton.isComplete());
+  }
+
+  ids(items: { id: number }[]): string {
+    return items.map(item => item.id).join(', ');
+  }
+
+  get hasResults(): boolean {
+    return this.currentResults !== null;
+  }
+
+  get endTime(): number {
+    return this.currentResults?.endTime ?? 0;
+  }
+
+  onTimeChange() {
+    if (this.scene === 'results') {
+      this.redraw();
+    }
+  }
+
+  togglePlay() {
+    if (this.playing) {
+      this.pause();
+      return;
+    }
+    if (!this.currentResults || this.scene !== 'results') return;
+
+    // Play from the start if at the end, at a pace that takes the same
+    // while for any skeleton
+    if (this.time >= this.endTime) {
+      this.time = 0;
+    }
+    this.playing = true;
+    let last = performance.now();
+    const step = (now: number) => {
+      this.time = Math.min(this.endTime, this.time + (now - last) * this.endTime / this.PLAY_DURATION);
+      last = now;
+      this.redraw();
+      if (this.time >= this.endTime) {
+        this.pause();
+      } else {
+        this.playFrame = requestAnimationFrame(step);
       }
+    };
+    this.playFrame = requestAnimationFrame(step);
+  }
+
+  private pause() {
+    this.playing = false;
+    if (this.playFrame !== null) {
+      cancelAnimationFrame(this.playFrame);
+      this.playFrame = null;
     }
   }
 
-}
\ No newline at end of file
+  exportRoof() {
+    if (!this.currentResults) return;
+
+    try {
+      this.errors = [];
+      const pitch = Angle.fromDegrees(this.roofPitch);
+      const skeletons = [...this.currentResults.skeletonSet.getSkeletons().values()];
+      const mesh = RoofMesh.merge(skeletons.map(skeleton => RoofBuilder.build(skeleton, pitch)));
+
+      switch (this.exportFormat) {
+        case 'obj':
+          this.download(ObjWriter.write(mesh), 'roof.obj', 'text/plain');
+          break;
+        case 'stl-ascii':
+          this.download(StlWriter.writeAscii(mesh), 'roof.stl', 'model/stl');
+          break;
+        case 'stl-binary':
+          this.download(StlWriter.writeBinary(mesh), 'roof.stl', 'model/stl');
+          break;
+        case 'gltf':
+          this.download(GltfWriter.write(mesh), 'roof.gltf', 'model/gltf+json');
+          break;
+        case 'dxf': {
+          // Skeletons are built from the polygons in order
+          const writer = new DxfWriter({ pitch });
+          this.currentResults.polygons.forEach((polygon, i) => writer.addSkeleton(polygon, skeletons[i]));
+          this.download(writer.toString(), 'roof.dxf', 'image/vnd.dxf');
+          break;
+        }
+      }
+    } catch (error: any) {
+      console.error("Error in roof export:", error);
+      this.errors.push(error.message);
+    }
+  }
+
+  get hasScene(): boolean {
+    return this.scene !== 'empty';
+  }
+
+  downloadSvg() {
+    try {
+      const canvas = this.canvasRef.nativeElement;
+      const svg = new SvgRenderer(canvas.width, canvas.height);
+      this.render(svg);
+      this.download(svg.toString(), 'skeleton.svg', 'image/svg+xml');
+    } catch (error: any) {
+      console.error("Error in SVG export:", error);
+      this.errors.push(error.message);
+    }
+  }
+
+  private download(content: string | ArrayBuffer, filename: string, type: string) {
+    const url = URL.createObjectURL(new Blob([content], { type }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+}
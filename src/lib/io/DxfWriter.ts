@@ -0,0 +1,198 @@
+import { Angle } from "../skeleton/Angle";
+import { Edge } from "../skeleton/Edge";
+import { Face } from "../skeleton/Face";
+import { Polygon } from "../skeleton/Polygon";
+import { Skeleton } from "../skeleton/Skeleton";
+import { Vector } from "../skeleton/Vector";
+
+export type DxfUnits = "mm" | "cm" | "m" | "in" | "ft";
+export type DxfLayer = "FOOTPRINT" | "RIDGE" | "HIP" | "VALLEY" | "WAVEFRONT" | "ROOF";
+
+export interface DxfOptions {
+    units?: DxfUnits;       // Of the drawing, default metres
+    modelUnits?: DxfUnits;  // Of the polygon coordinates, default metres
+    pitch?: Angle;          // Lifts skeleton lines and roof faces to their heights as 3D polylines
+    precision?: number;     // Decimal places, default 6
+}
+
+// Metres per unit. R12 has no header variable for the units of a
+// drawing, so they only enter through the scale of the coordinates
+const UNITS: Record<DxfUnits, number> = {
+    mm: 0.001,
+    cm: 0.01,
+    m: 1,
+    in: 0.0254,
+    ft: 0.3048
+};
+
+// AutoCAD colour index of each layer
+const LAYERS: Record<DxfLayer, number> = {
+    FOOTPRINT: 1,   // Red
+    RIDGE: 2,       // Yellow
+    HIP: 3,         // Green
+    VALLEY: 5,      // Blue
+    WAVEFRONT: 8,   // Grey
+    ROOF: 7         // White
+};
+
+// AutoCAD R12 ASCII DXF, the oldest version CAD tools still all read.
+// Everything is drawn as polylines on one layer per kind of line
+export class DxfWriter {
+    private readonly entities: string[] = [];
+    private readonly scale: number;
+    private readonly slope?: number;
+
+    constructor(private readonly options: DxfOptions = {}) {
+        const { units = "m", modelUnits = "m", pitch } = options;
+        if (!UNITS[units] || !UNITS[modelUnits]) {
+            throw new Error(`Unknown DXF units: ${UNITS[units] ? modelUnits : units}`);
+        }
+        this.scale = UNITS[modelUnits] / UNITS[units];
+        if (pitch) {
+            const degrees = pitch.toDegrees();
+            if (!(degrees > 0 && degrees < 90)) {
+                throw new Error(`Roof pitch must lie between 0 and 90 degrees, got ${degrees}`);
+            }
+            this.slope = pitch.tan();
+        }
+    }
+
+    static write(polygon: Polygon, skeleton: Skeleton, options: DxfOptions = {}): string {
+        return new DxfWriter(options).addSkeleton(polygon, skeleton).toString();
+    }
+
+    static classify(arc: Edge, faces: Face[]): "RIDGE" | "HIP" | "VALLEY" {
+        return DxfWriter.classifier(faces)(arc);
+    }
+
+    private static classifier(faces: Face[]): (arc: Edge) => "RIDGE" | "HIP" | "VALLEY" {
+        // The tolerance Face uses to join the skeleton edges around a face
+        const extent = Math.max(1, ...faces.map(face => face.edge.v1.position.length()));
+        const tolerance = 1e-9 * extent;
+        const bySource = new Map(faces.map(face => [face.edge, face]));
+
+        return arc => {
+            const start = arc.v1.position;
+            const end = arc.v2.position;
+            if (start.minus(end).length() <= tolerance) {
+                return "RIDGE"; // Where several events met at once; flat, having no length
+            }
+
+            // The roof folds up along hips and ridges and down along valleys.
+            // Find which side of the arc each of its faces lies on, and
+            // whether the faces' planes rise away from the arc on their own side
+            const [a, b] = arc.faces.map(source => bySource.get(source));
+            if (!a || !b) {
+                throw new Error(`Skeleton edge ${arc.id} does not separate two of the given faces`);
+            }
+            const left = new Vector(start.y - end.y, end.x - start.x);
+            const side = DxfWriter.side(a, start, end, tolerance);
+
+            // Difference of the planes' gradients, scaled by both weights so
+            // that gables, which do not move, still have a direction
+            const na = a.edge.normal().scale(b.edge.weight);
+            const nb = b.edge.normal().scale(a.edge.weight);
+            if (left.scale(side).dot(na.minus(nb)) > 0) {
+                return "VALLEY";
+            }
+            return Math.abs(arc.v1.time - arc.v2.time) <= tolerance ? "RIDGE" : "HIP";
+        };
+    }
+
+    addSkeleton(polygon: Polygon, skeleton: Skeleton): this {
+        // The footprint, and everything built over it
+        const faces = skeleton.getFaces();
+        return this
+            .addPolygon(polygon)
+            .addWavefronts(skeleton.getWavefrontPolygons().slice(1)) // The first is the footprint itself
+            .addSkeletonEdges(skeleton.getSkeletonEdges(), faces)
+            .addFaces(faces);
+    }
+
+    addPolygon(polygon: Polygon, layer: DxfLayer = "FOOTPRINT"): this {
+        // Polygons lie flat, as drawn in plan
+        polygon.getRings().forEach(ring => this.polyline(layer, ring.vertices.map(v => [v.position, 0]), true, false));
+        return this;
+    }
+
+    addWavefronts(polygons: Polygon[]): this {
+        polygons.forEach(polygon => this.addPolygon(polygon, "WAVEFRONT"));
+        return this;
+    }
+
+    addSkeletonEdges(arcs: Edge[], faces: Face[]): this {
+        // Faces, as from Skeleton.getFaces(), tell ridges, hips and valleys apart
+        const classify = DxfWriter.classifier(faces);
+        for (const arc of arcs) {
+            const points: [Vector, number][] = [[arc.v1.position, arc.v1.time], [arc.v2.position, arc.v2.time]];
+            this.polyline(classify(arc), points, false, this.slope !== undefined);
+        }
+        return this;
+    }
+
+    addFaces(faces: Face[]): this {
+        faces.forEach(face => this.polyline("ROOF", face.points.map((p, i) => [p, face.times[i]]), true, this.slope !== undefined));
+        return this;
+    }
+
+    toString(): string {
+        const layers = Object.entries(LAYERS).flatMap(([name, colour]) =>
+            ["0", "LAYER", "2", name, "70", "0", "62", String(colour), "6", "CONTINUOUS"]);
+
+        // Layers refer to their line type, which has to be defined before
+        return [
+            "0", "SECTION", "2", "HEADER",
+            "9", "$ACADVER", "1", "AC1009",
+            "0", "ENDSEC",
+            "0", "SECTION", "2", "TABLES",
+            "0", "TABLE", "2", "LTYPE", "70", "1",
+            "0", "LTYPE", "2", "CONTINUOUS", "70", "0", "3", "Solid line", "72", "65", "73", "0", "40", "0",
+            "0", "ENDTAB",
+            "0", "TABLE", "2", "LAYER", "70", String(Object.keys(LAYERS).length),
+            ...layers,
+            "0", "ENDTAB",
+            "0", "ENDSEC",
+            "0", "SECTION", "2", "ENTITIES",
+            ...this.entities,
+            "0", "ENDSEC",
+            "0", "EOF"
+        ].join("\n") + "\n";
+    }
+
+    private polyline(layer: DxfLayer, points: [Vector, number][], closed: boolean, lifted: boolean): void {
+        // Points carry the time the wavefront reached them, which the pitch
+        // turns into a height. Flag 8 makes a 3D polyline, flag 1 closes it
+        const flags = (closed ? 1 : 0) + (lifted ? 8 : 0);
+        this.entities.push("0", "POLYLINE", "8", layer, "66", "1", "70", String(flags),
+            "10", "0", "20", "0", "30", "0");
+        for (const [point, time] of points) {
+            this.entities.push("0", "VERTEX", "8", layer,
+                "10", this.number(point.x), "20", this.number(point.y), "30", this.number(lifted ? time * this.slope! : 0));
+            if (lifted) {
+                this.entities.push("70", "32"); // A vertex of a 3D polyline
+            }
+        }
+        this.entities.push("0", "SEQEND", "8", layer);
+    }
+
+    private number(value: number): string {
+        return String(Number((value * this.scale).toFixed(this.options.precision ?? 6)) || 0);
+    }
+
+    private static side(face: Face, start: Vector, end: Vector, tolerance: number): 1 | -1 {
+        // Faces run counterclockwise, so a face lies left of the arc if its
+        // ring passes along the arc from start to end
+        const near = (p: Vector, q: Vector) => p.minus(q).length() <= tolerance;
+        const points = face.points;
+        for (let i = 0; i < points.length; i++) {
+            const [p, q] = [points[i], points[(i + 1) % points.length]];
+            if (near(p, start) && near(q, end)) {
+                return 1;
+            }
+            if (near(p, end) && near(q, start)) {
+                return -1;
+            }
+        }
+        throw new Error(`Face ${face.id} does not run along the skeleton edge from (${start.x}, ${start.y})`);
+    }
+}
@@ -0,0 +1,41 @@
+// The parts of RFC 7946 the reader and writer deal in. Positions are
+// [longitude, latitude] in WGS84, optionally followed by a height
+
+export type Position = number[];
+
+export interface PolygonGeometry {
+    type: "Polygon";
+    coordinates: Position[][];
+}
+
+export interface MultiPolygonGeometry {
+    type: "MultiPolygon";
+    coordinates: Position[][][];
+}
+
+export interface LineStringGeometry {
+    type: "LineString";
+    coordinates: Position[];
+}
+
+export interface OtherGeometry {
+    type: "Point" | "MultiPoint" | "MultiLineString" | "GeometryCollection";
+}
+
+export type Geometry = PolygonGeometry | MultiPolygonGeometry | LineStringGeometry | OtherGeometry;
+
+export type Properties = { [name: string]: unknown } | null;
+
+export interface Feature<G extends Geometry = Geometry, P extends Properties = Properties> {
+    type: "Feature";
+    id?: string | number;
+    geometry: G | null;
+    properties: P;
+}
+
+export interface FeatureCollection<G extends Geometry = Geometry, P extends Properties = Properties> {
+    type: "FeatureCollection";
+    features: Feature<G, P>[];
+}
+
+export type GeoJson = Geometry | Feature | FeatureCollection;
@@ -0,0 +1,79 @@
+import { Polygon } from "../skeleton/Polygon";
+import { Feature, GeoJson, Position, Properties } from "./GeoJson";
+import { LocalProjection } from "./LocalProjection";
+import { SimpleFeatures } from "./SimpleFeatures";
+
+export interface GeoJsonFootprints {
+    polygons: Polygon[];            // One per Polygon, and per part of a MultiPolygon
+    properties: Properties[];       // Of the feature each polygon came from
+    projection: LocalProjection;    // Maps the polygons back to longitude and latitude
+}
+
+// Reads footprints from GeoJSON Polygons and MultiPolygons, projected to a
+// plane in metres around their centroid
+export class GeoJsonReader {
+    static read(input: string | GeoJson, projection?: LocalProjection): GeoJsonFootprints {
+        const document: GeoJson = typeof input === "string" ? JSON.parse(input) : input;
+
+        // Every polygon as rings of positions, the closing position dropped
+        const parts: { rings: Position[][]; properties: Properties }[] = [];
+        for (const feature of GeoJsonReader.features(document)) {
+            const geometry = feature.geometry;
+            if (!geometry) {
+                continue; // Unlocated features carry nothing to build
+            }
+            if (geometry.type === "Polygon") {
+                parts.push({ rings: geometry.coordinates.map(GeoJsonReader.open), properties: feature.properties });
+            } else if (geometry.type === "MultiPolygon") {
+                geometry.coordinates.forEach(polygon =>
+                    parts.push({ rings: polygon.map(GeoJsonReader.open), properties: feature.properties }));
+            } else {
+                throw new Error(`Unsupported GeoJSON geometry type: ${geometry.type}`);
+            }
+        }
+        if (parts.length === 0) {
+            throw new Error("GeoJSON contains no polygons");
+        }
+
+        const plane = projection ?? LocalProjection.around(
+            parts.flatMap(part => part.rings.flat()).map(([lon, lat]) => [lon, lat]));
+
+        // RFC 7946 asks readers not to reject either winding
+        const polygons = parts.map(({ rings }) =>
+            SimpleFeatures.orientedPolygon(rings.map(ring => ring.map(([lon, lat]) => plane.forward(lon, lat)))));
+
+        return { polygons, properties: parts.map(part => part.properties), projection: plane };
+    }
+
+    private static features(document: GeoJson): Feature[] {
+        switch (document?.type) {
+            case "FeatureCollection":
+                return document.features;
+            case "Feature":
+                return [document];
+            case "Polygon":
+            case "MultiPolygon":
+            case "LineString":
+            case "Point":
+            case "MultiPoint":
+            case "MultiLineString":
+            case "GeometryCollection":
+                return [{ type: "Feature", geometry: document, properties: null }];
+            default:
+                throw new Error(`Expected a GeoJSON geometry, Feature or FeatureCollection, got ${(document as { type?: string })?.type}`);
+        }
+    }
+
+    private static open(ring: Position[]): Position[] {
+        if (ring.some(position => position.length < 2 || !position.slice(0, 2).every(isFinite))) {
+            throw new Error("GeoJSON positions must start with a finite longitude and latitude");
+        }
+        const [first, last] = [ring[0], ring[ring.length - 1]];
+        const closed = ring.length > 1 && first[0] === last[0] && first[1] === last[1];
+        const open = closed ? ring.slice(0, -1) : ring;
+        if (open.length < 3) {
+            throw new Error("GeoJSON ring must have at least 3 distinct positions");
+        }
+        return open;
+    }
+}
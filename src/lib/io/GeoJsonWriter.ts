@@ -0,0 +1,113 @@
+import { Angle } from "../skeleton/Angle";
+import { Skeleton } from "../skeleton/Skeleton";
+import { SkeletonSet } from "../skeleton/SkeletonSet";
+import { Vector } from "../skeleton/Vector";
+import { FeatureCollection, LineStringGeometry, PolygonGeometry, Position } from "./GeoJson";
+import { LocalProjection } from "./LocalProjection";
+
+export interface GeoJsonWriteOptions {
+    // Lifts positions to roof height, and adds the pitch and height of each face
+    pitch?: Angle;
+    // Decimal places of longitudes and latitudes; 9 is about a tenth of a millimetre
+    precision?: number;
+}
+
+export interface FaceProperties {
+    [name: string]: unknown;
+    kind: "face";
+    component?: string;     // Id in the skeleton set
+    faceId: number;
+    weight: number;         // Of the input edge the face rises from
+    gable: boolean;
+    neighbours: number[];
+    pitch?: number;         // Degrees; 90 for gables
+    height?: number;        // Of the highest point, in metres above the eaves
+}
+
+export interface SkeletonEdgeProperties {
+    [name: string]: unknown;
+    kind: "skeleton-edge";
+    component?: string;
+    faces: number[];        // Ids of the faces on either side
+}
+
+export type SkeletonFeatureCollection = FeatureCollection<
+    PolygonGeometry | LineStringGeometry, FaceProperties | SkeletonEdgeProperties>;
+
+// Writes the faces and skeleton edges of a roof as WGS84 GeoJSON, through
+// the projection its footprint was read with
+export class GeoJsonWriter {
+    static write(skeleton: Skeleton | SkeletonSet, projection: LocalProjection, options: GeoJsonWriteOptions = {}): string {
+        return JSON.stringify(GeoJsonWriter.toFeatureCollection(skeleton, projection, options));
+    }
+
+    static toFeatureCollection(skeleton: Skeleton | SkeletonSet, projection: LocalProjection,
+                               options: GeoJsonWriteOptions = {}): SkeletonFeatureCollection {
+        const { pitch, precision = 9 } = options;
+        if (pitch) {
+            const degrees = pitch.toDegrees();
+            if (!(degrees > 0 && degrees < 90)) {
+                throw new Error(`Roof pitch must lie between 0 and 90 degrees, got ${degrees}`);
+            }
+        }
+
+        // Heights are in metres and kept to a tenth of a millimetre
+        const scale = 10 ** precision;
+        const position = (point: Vector, time: number): Position => {
+            const coordinates = projection.inverse(point).map(c => Math.round(c * scale) / scale);
+            if (pitch) {
+                coordinates.push(Math.round(time * pitch.tan() * 1e4) / 1e4);
+            }
+            return coordinates;
+        };
+
+        const components: [string | undefined, Skeleton][] = skeleton instanceof SkeletonSet
+            ? [...skeleton.getSkeletons()]
+            : [[undefined, skeleton]];
+
+        const collection: SkeletonFeatureCollection = { type: "FeatureCollection", features: [] };
+        for (const [component, current] of components) {
+            const faces = current.getFaces();
+            const ids = new Map(faces.map(face => [face.edge, face.id]));
+
+            for (const face of faces) {
+                const ring = face.points.map((point, i) => position(point, face.times[i]));
+                const properties: FaceProperties = {
+                    kind: "face",
+                    ...(component !== undefined && { component }),
+                    faceId: face.id,
+                    weight: face.edge.weight,
+                    gable: face.edge.isGable(),
+                    neighbours: [...face.neighbours]
+                };
+                if (pitch) {
+                    // An edge moving at weight w rises by tan(pitch) over w in plan
+                    properties.pitch = face.edge.isGable() ? 90 : Math.atan(pitch.tan() / face.edge.weight) / Math.PI * 180;
+                    properties.height = Math.max(...face.times) * pitch.tan();
+                }
+                collection.features.push({
+                    type: "Feature",
+                    geometry: { type: "Polygon", coordinates: [[...ring, ring[0]]] },
+                    properties
+                });
+            }
+
+            for (const arc of current.getSkeletonEdges()) {
+                const properties: SkeletonEdgeProperties = {
+                    kind: "skeleton-edge",
+                    ...(component !== undefined && { component }),
+                    faces: arc.faces.filter(source => ids.has(source)).map(source => ids.get(source)!)
+                };
+                collection.features.push({
+                    type: "Feature",
+                    geometry: {
+                        type: "LineString",
+                        coordinates: [position(arc.v1.position, arc.v1.time), position(arc.v2.position, arc.v2.time)]
+                    },
+                    properties
+                });
+            }
+        }
+        return collection;
+    }
+}
@@ -0,0 +1,99 @@
+import { RoofMesh } from "../roof/RoofMesh";
+
+// Constants from the glTF 2.0 specification
+const FLOAT = 5126;
+const UNSIGNED_INT = 5125;
+const ARRAY_BUFFER = 34962;
+const ELEMENT_ARRAY_BUFFER = 34963;
+
+export class GltfWriter {
+    static write(mesh: RoofMesh): string {
+        // glTF is Y-up while the roof mesh is Z-up: (x, y, z) -> (x, z, -y)
+        const toGltf = (x: number, y: number, z: number) => [x, z, -y];
+
+        const positions: number[] = [];
+        const normals: number[] = [];
+        for (let i = 0; i < mesh.vertexCount(); i++) {
+            positions.push(...toGltf(...mesh.getPosition(i)));
+            normals.push(...toGltf(...mesh.getNormal(i)));
+        }
+
+        // Vertices are not shared between roof faces, so each one carries
+        // the id of its face
+        const faceIds = new Array<number>(mesh.vertexCount()).fill(0);
+        mesh.faceIds.forEach((faceId, t) => mesh.getTriangle(t).forEach(i => faceIds[i] = faceId));
+
+        const chunks = [
+            new Float32Array(positions),
+            new Float32Array(normals),
+            new Float32Array(faceIds),
+            new Uint32Array(mesh.indices)
+        ];
+        const byteLength = chunks.reduce((sum, chunk) => sum + chunk.byteLength, 0);
+        const bytes = new Uint8Array(byteLength);
+
+        let offset = 0;
+        const bufferViews = chunks.map((chunk, i) => {
+            bytes.set(new Uint8Array(chunk.buffer), offset);
+            const view = {
+                buffer: 0,
+                byteOffset: offset,
+                byteLength: chunk.byteLength,
+                target: i === chunks.length - 1 ? ELEMENT_ARRAY_BUFFER : ARRAY_BUFFER
+            };
+            offset += chunk.byteLength;
+            return view;
+        });
+
+        const { min, max } = GltfWriter.bounds(positions);
+
+        const document = {
+            asset: { version: "2.0", generator: "ixt-skeleton" },
+            scene: 0,
+            scenes: [{ nodes: [0] }],
+            nodes: [{ mesh: 0, name: "roof" }],
+            meshes: [{
+                name: "roof",
+                primitives: [{
+                    attributes: { POSITION: 0, NORMAL: 1, _FACE_ID: 2 },
+                    indices: 3,
+                    mode: 4 // Triangles
+                }]
+            }],
+            accessors: [
+                { bufferView: 0, componentType: FLOAT, count: mesh.vertexCount(), type: "VEC3", min, max },
+                { bufferView: 1, componentType: FLOAT, count: mesh.vertexCount(), type: "VEC3" },
+                { bufferView: 2, componentType: FLOAT, count: mesh.vertexCount(), type: "SCALAR" },
+                { bufferView: 3, componentType: UNSIGNED_INT, count: mesh.indices.length, type: "SCALAR" }
+            ],
+            bufferViews,
+            buffers: [{
+                byteLength,
+                uri: "data:application/octet-stream;base64," + GltfWriter.toBase64(bytes)
+            }]
+        };
+
+        return JSON.stringify(document);
+    }
+
+    private static bounds(positions: number[]): { min: number[]; max: number[] } {
+        const min = [Infinity, Infinity, Infinity];
+        const max = [-Infinity, -Infinity, -Infinity];
+        for (let i = 0; i < positions.length; i++) {
+            // Accessor bounds must match the stored float32 values
+            const value = Math.fround(positions[i]);
+            min[i % 3] = Math.min(min[i % 3], value);
+            max[i % 3] = Math.max(max[i % 3], value);
+        }
+        return { min, max };
+    }
+
+    private static toBase64(bytes: Uint8Array): string {
+        // Convert in chunks to stay below the argument limit of fromCharCode
+        let binary = "";
+        for (let i = 0; i < bytes.length; i += 0x8000) {
+            binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+        }
+        return btoa(binary);
+    }
+}
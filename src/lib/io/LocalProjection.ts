@@ -0,0 +1,96 @@
+import { Vector } from "../skeleton/Vector";
+
+// WGS84 ellipsoid
+const A = 6378137;
+const F = 1 / 298.257223563;
+const E2 = F * (2 - F);
+const EP2 = E2 / (1 - E2);
+
+const DEGREES = Math.PI / 180;
+
+// Transverse Mercator on the WGS84 ellipsoid, centred on an origin near the
+// data, with unit scale on the central meridian. Coordinates are metres east
+// and north of the origin; within a few kilometres of it distances are true
+// to better than a part in a million (Snyder, Map Projections, pp. 60-64)
+export class LocalProjection {
+    private readonly lon0: number;
+    private readonly lat0: number;
+    private readonly m0: number;
+
+    constructor(public readonly longitude: number, public readonly latitude: number) {
+        if (!isFinite(longitude) || !isFinite(latitude) || Math.abs(latitude) >= 90) {
+            throw new Error(`Projection origin must be a finite longitude and a latitude between the poles, got (${longitude}, ${latitude})`);
+        }
+        this.lon0 = longitude * DEGREES;
+        this.lat0 = latitude * DEGREES;
+        this.m0 = LocalProjection.meridianArc(this.lat0);
+    }
+
+    static around(positions: [number, number][]): LocalProjection {
+        // Centred on the mean of the positions, as [longitude, latitude]
+        if (positions.length === 0) {
+            throw new Error("Projection needs at least one position to centre on");
+        }
+        const lon = positions.reduce((sum, [x]) => sum + x, 0) / positions.length;
+        const lat = positions.reduce((sum, [, y]) => sum + y, 0) / positions.length;
+        return new LocalProjection(lon, lat);
+    }
+
+    forward(longitude: number, latitude: number): Vector {
+        const phi = latitude * DEGREES;
+        const sin = Math.sin(phi);
+        const cos = Math.cos(phi);
+        const n = A / Math.sqrt(1 - E2 * sin * sin);
+        const t = Math.tan(phi) ** 2;
+        const c = EP2 * cos * cos;
+        const a = (longitude * DEGREES - this.lon0) * cos;
+
+        const x = n * (a + (1 - t + c) * a ** 3 / 6 +
+            (5 - 18 * t + t * t + 72 * c - 58 * EP2) * a ** 5 / 120);
+        const y = LocalProjection.meridianArc(phi) - this.m0 + n * Math.tan(phi) * (a * a / 2 +
+            (5 - t + 9 * c + 4 * c * c) * a ** 4 / 24 +
+            (61 - 58 * t + t * t + 600 * c - 330 * EP2) * a ** 6 / 720);
+        return new Vector(x, y);
+    }
+
+    inverse(point: Vector): [number, number] {
+        // Footpoint latitude, where the meridian arc reaches the northing.
+        // Newton's method on the arc, whose derivative is the meridional radius
+        const arc = this.m0 + point.y;
+        let phi1 = arc / (A * (1 - E2 / 4 - 3 * E2 ** 2 / 64 - 5 * E2 ** 3 / 256));
+        for (let i = 0; i < 10; i++) {
+            const radius = A * (1 - E2) / (1 - E2 * Math.sin(phi1) ** 2) ** 1.5;
+            const step = (LocalProjection.meridianArc(phi1) - arc) / radius;
+            phi1 -= step;
+            if (Math.abs(step) < 1e-15) {
+                break;
+            }
+        }
+
+        const sin = Math.sin(phi1);
+        const cos = Math.cos(phi1);
+        const c = EP2 * cos * cos;
+        const t = Math.tan(phi1) ** 2;
+        const n = A / Math.sqrt(1 - E2 * sin * sin);
+        const r = A * (1 - E2) / (1 - E2 * sin * sin) ** 1.5;
+        const d = point.x / n;
+
+        const phi = phi1 - (n * Math.tan(phi1) / r) * (d * d / 2 -
+            (5 + 3 * t + 10 * c - 4 * c * c - 9 * EP2) * d ** 4 / 24 +
+            (61 + 90 * t + 298 * c + 45 * t * t - 252 * EP2 - 3 * c * c) * d ** 6 / 720);
+        const lambda = this.lon0 + (d - (1 + 2 * t + c) * d ** 3 / 6 +
+            (5 - 2 * c + 28 * t - 3 * c * c + 8 * EP2 + 24 * t * t) * d ** 5 / 120) / cos;
+
+        return [lambda / DEGREES, phi / DEGREES];
+    }
+
+    private static meridianArc(phi: number): number {
+        // Distance along the meridian from the equator
+        return A * (
+            (1 - E2 / 4 - 3 * E2 ** 2 / 64 - 5 * E2 ** 3 / 256) * phi -
+            (3 * E2 / 8 + 3 * E2 ** 2 / 32 + 45 * E2 ** 3 / 1024) * Math.sin(2 * phi) +
+            (15 * E2 ** 2 / 256 + 45 * E2 ** 3 / 1024) * Math.sin(4 * phi) -
+            (35 * E2 ** 3 / 3072) * Math.sin(6 * phi)
+        );
+    }
+}
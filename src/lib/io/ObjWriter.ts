@@ -0,0 +1,34 @@
+import { RoofMesh } from "../roof/RoofMesh";
+
+export class ObjWriter {
+    static write(mesh: RoofMesh, precision: number = 6): string {
+        const lines: string[] = ["# Roof mesh", `# ${mesh.vertexCount()} vertices, ${mesh.triangleCount()} triangles`];
+
+        for (let i = 0; i < mesh.vertexCount(); i++) {
+            lines.push("v " + mesh.getPosition(i).map(c => c.toFixed(precision)).join(" "));
+        }
+        for (let i = 0; i < mesh.vertexCount(); i++) {
+            lines.push("vn " + mesh.getNormal(i).map(c => c.toFixed(precision)).join(" "));
+        }
+
+        // One group per roof face, so CAD tools can select the planes
+        const groups = new Map<number, number[]>();
+        mesh.faceIds.forEach((faceId, triangle) => {
+            if (!groups.has(faceId)) {
+                groups.set(faceId, []);
+            }
+            groups.get(faceId)!.push(triangle);
+        });
+
+        for (const [faceId, triangles] of groups) {
+            lines.push(mesh.gableFaceIds.includes(faceId) ? `g gable_${faceId}` : `g face_${faceId}`);
+            for (const triangle of triangles) {
+                // OBJ indices are 1-based
+                const corners = mesh.getTriangle(triangle).map(i => `${i + 1}//${i + 1}`);
+                lines.push("f " + corners.join(" "));
+            }
+        }
+
+        return lines.join("\n") + "\n";
+    }
+}
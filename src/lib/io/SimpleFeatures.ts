@@ -0,0 +1,96 @@
+import { Edge } from "../skeleton/Edge";
+import { Face } from "../skeleton/Face";
+import { Polygon } from "../skeleton/Polygon";
+import { Vector } from "../skeleton/Vector";
+
+// x and y, followed by z and m where the source has them
+export type Coordinates = number[];
+
+// The OGC simple feature geometries exchanged as WKT and WKB. Rings are
+// closed, their last point repeating the first
+export type SimpleGeometry =
+    | { kind: "Polygon"; rings: Coordinates[][] }
+    | { kind: "MultiPolygon"; polygons: Coordinates[][][] }
+    | { kind: "LineString"; points: Coordinates[] }
+    | { kind: "MultiLineString"; lines: Coordinates[][] };
+
+export class SimpleFeatures {
+    static toPolygons(geometry: SimpleGeometry): Polygon[] {
+        switch (geometry.kind) {
+            case "Polygon":
+                return geometry.rings.length === 0 ? [] : [SimpleFeatures.polygon(geometry.rings)];
+            case "MultiPolygon":
+                return geometry.polygons.map(rings => SimpleFeatures.polygon(rings));
+            default:
+                throw new Error(`Expected a Polygon or MultiPolygon, got ${geometry.kind}`);
+        }
+    }
+
+    static fromPolygon(polygon: Polygon): SimpleGeometry {
+        return {
+            kind: "Polygon",
+            rings: polygon.getRings().map(ring => SimpleFeatures.closed(ring.vertices.map(v => v.position)))
+        };
+    }
+
+    static fromEdges(edges: Edge[]): SimpleGeometry {
+        // Skeleton edges, as from Skeleton.getSkeletonEdges()
+        return {
+            kind: "MultiLineString",
+            lines: edges.map(edge => [edge.v1.position, edge.v2.position].map(p => [p.x, p.y]))
+        };
+    }
+
+    static fromFaces(faces: Face[]): SimpleGeometry {
+        return { kind: "MultiPolygon", polygons: faces.map(face => [SimpleFeatures.closed(face.points)]) };
+    }
+
+    static coordinates(geometry: SimpleGeometry): Coordinates[] {
+        // Every position in the geometry, in order
+        switch (geometry.kind) {
+            case "Polygon":
+                return geometry.rings.flat();
+            case "MultiPolygon":
+                return geometry.polygons.flat(2);
+            case "LineString":
+                return geometry.points;
+            case "MultiLineString":
+                return geometry.lines.flat();
+        }
+    }
+
+    static orientedPolygon(rings: Vector[][]): Polygon {
+        // Readers take rings of either winding and turn the outer ring
+        // counterclockwise and the holes clockwise
+        const [outer, ...holes] = rings;
+        const polygon = new Polygon(SimpleFeatures.area(outer) < 0 ? [...outer].reverse() : outer);
+        holes.forEach(hole => polygon.addHole(SimpleFeatures.area(hole) > 0 ? [...hole].reverse() : hole));
+        return polygon;
+    }
+
+    private static polygon(rings: Coordinates[][]): Polygon {
+        return SimpleFeatures.orientedPolygon(rings.map(ring => {
+            const [first, last] = [ring[0], ring[ring.length - 1]];
+            const open = ring.length > 1 && first[0] === last[0] && first[1] === last[1] ? ring.slice(0, -1) : ring;
+            if (open.length < 3) {
+                throw new Error("Ring must have at least 3 distinct points");
+            }
+            return open.map(([x, y]) => new Vector(x, y));
+        }));
+    }
+
+    private static closed(points: Vector[]): Coordinates[] {
+        return [...points, points[0]].map(p => [p.x, p.y]);
+    }
+
+    private static area(ring: Vector[]): number {
+        // Shoelace formula, positive for counterclockwise rings
+        let area = 0;
+        for (let i = 0; i < ring.length; i++) {
+            const a = ring[i];
+            const b = ring[(i + 1) % ring.length];
+            area += a.x * b.y - b.x * a.y;
+        }
+        return area / 2;
+    }
+}
@@ -0,0 +1,54 @@
+import { RoofMesh } from "../roof/RoofMesh";
+
+export class StlWriter {
+    static writeAscii(mesh: RoofMesh, name: string = "roof"): string {
+        const lines: string[] = [`solid ${name}`];
+
+        for (let t = 0; t < mesh.triangleCount(); t++) {
+            const triangle = mesh.getTriangle(t);
+            lines.push(`  facet normal ${StlWriter.triangleNormal(mesh, t).join(" ")}`);
+            lines.push("    outer loop");
+            for (const index of triangle) {
+                lines.push(`      vertex ${mesh.getPosition(index).join(" ")}`);
+            }
+            lines.push("    endloop");
+            lines.push("  endfacet");
+        }
+
+        lines.push(`endsolid ${name}`);
+        return lines.join("\n") + "\n";
+    }
+
+    static writeBinary(mesh: RoofMesh): ArrayBuffer {
+        // 80 byte header, triangle count, then 50 bytes per triangle
+        const buffer = new ArrayBuffer(84 + 50 * mesh.triangleCount());
+        const view = new DataView(buffer);
+
+        const header = "Roof mesh";
+        for (let i = 0; i < header.length; i++) {
+            view.setUint8(i, header.charCodeAt(i));
+        }
+        view.setUint32(80, mesh.triangleCount(), true);
+
+        let offset = 84;
+        for (let t = 0; t < mesh.triangleCount(); t++) {
+            const values = [
+                ...StlWriter.triangleNormal(mesh, t),
+                ...mesh.getTriangle(t).flatMap(index => mesh.getPosition(index))
+            ];
+            for (const value of values) {
+                view.setFloat32(offset, value, true);
+                offset += 4;
+            }
+            view.setUint16(offset, 0, true); // Attribute byte count
+            offset += 2;
+        }
+
+        return buffer;
+    }
+
+    private static triangleNormal(mesh: RoofMesh, triangle: number): [number, number, number] {
+        // Roof faces are flat, so the vertex normal is the facet normal
+        return mesh.getNormal(mesh.getTriangle(triangle)[0]);
+    }
+}
@@ -0,0 +1,221 @@
+import { Polygon } from "../skeleton/Polygon";
+import { Coordinates, SimpleFeatures, SimpleGeometry } from "./SimpleFeatures";
+
+// Geometry type codes; ISO WKB adds 1000 for Z, 2000 for M and 3000 for both
+const LINESTRING = 2;
+const POLYGON = 3;
+const MULTILINESTRING = 5;
+const MULTIPOLYGON = 6;
+
+// Flags of PostGIS extended WKB, in the high bits of the type
+const EWKB_Z = 0x80000000;
+const EWKB_M = 0x40000000;
+const EWKB_SRID = 0x20000000;
+
+export interface WkbWriteOptions {
+    // Decimal places coordinates are rounded to before they are stored
+    precision?: number;
+    // Writes PostGIS extended WKB carrying this spatial reference id
+    srid?: number;
+}
+
+// Reads one WKB geometry, with whichever byte order each part declares
+class WkbReader {
+    private readonly view: DataView;
+    private offset = 0;
+    private littleEndian = true;
+
+    constructor(private readonly bytes: Uint8Array) {
+        this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    }
+
+    geometry(): SimpleGeometry {
+        const geometry = this.part();
+        if (this.offset !== this.bytes.length) {
+            throw new Error(`WKB has ${this.bytes.length - this.offset} bytes left after the geometry`);
+        }
+        return geometry;
+    }
+
+    private part(expected?: number): SimpleGeometry {
+        const { type, dimensions } = this.header();
+        if (expected !== undefined && type !== expected) {
+            throw new Error(`Expected WKB geometry type ${expected} inside a collection, got ${type}`);
+        }
+
+        switch (type) {
+            case LINESTRING:
+                return { kind: "LineString", points: this.points(dimensions) };
+            case POLYGON:
+                return { kind: "Polygon", rings: this.repeat(() => this.points(dimensions)) };
+            case MULTILINESTRING:
+                return {
+                    kind: "MultiLineString",
+                    lines: this.repeat(() => (this.part(LINESTRING) as { points: Coordinates[] }).points)
+                };
+            case MULTIPOLYGON:
+                return {
+                    kind: "MultiPolygon",
+                    polygons: this.repeat(() => (this.part(POLYGON) as { rings: Coordinates[][] }).rings)
+                };
+            default:
+                throw new Error(`Unsupported WKB geometry type: ${type}`);
+        }
+    }
+
+    private header(): { type: number; dimensions: number } {
+        const order = this.uint8();
+        if (order > 1) {
+            throw new Error(`Invalid WKB byte order: ${order}`);
+        }
+        this.littleEndian = order === 1;
+
+        let code = this.uint32();
+        let dimensions = 2;
+        if (code & (EWKB_Z | EWKB_M | EWKB_SRID)) {
+            dimensions += (code & EWKB_Z ? 1 : 0) + (code & EWKB_M ? 1 : 0);
+            if (code & EWKB_SRID) {
+                this.uint32(); // The SRID, which the plane does not need
+            }
+            code &= 0x0fffffff;
+        } else {
+            const iso = Math.floor(code / 1000);
+            dimensions += iso === 3 ? 2 : iso > 0 ? 1 : 0;
+            code %= 1000;
+        }
+        return { type: code, dimensions };
+    }
+
+    private points(dimensions: number): Coordinates[] {
+        return this.repeat(() => Array.from({ length: dimensions }, () => this.float64()));
+    }
+
+    private repeat<T>(item: () => T): T[] {
+        const count = this.uint32();
+        return Array.from({ length: count }, item);
+    }
+
+    private uint8(): number {
+        this.ensure(1);
+        return this.view.getUint8(this.offset++);
+    }
+
+    private uint32(): number {
+        this.ensure(4);
+        const value = this.view.getUint32(this.offset, this.littleEndian);
+        this.offset += 4;
+        return value;
+    }
+
+    private float64(): number {
+        this.ensure(8);
+        const value = this.view.getFloat64(this.offset, this.littleEndian);
+        this.offset += 8;
+        return value;
+    }
+
+    private ensure(length: number): void {
+        if (this.offset + length > this.bytes.length) {
+            throw new Error("Unexpected end of WKB");
+        }
+    }
+}
+
+// Well-known binary for the polygons and lines the skeleton reads and
+// writes. Input may be bytes or hex, as PostGIS dumps it
+export class Wkb {
+    static parse(input: Uint8Array | string): SimpleGeometry {
+        return new WkbReader(typeof input === "string" ? Wkb.fromHex(input) : input).geometry();
+    }
+
+    static readPolygons(input: Uint8Array | string): Polygon[] {
+        return SimpleFeatures.toPolygons(Wkb.parse(input));
+    }
+
+    static write(geometry: SimpleGeometry, options: WkbWriteOptions = {}): Uint8Array {
+        const { precision, srid } = options;
+        const dimensions = SimpleFeatures.coordinates(geometry)[0]?.length ?? 2;
+        if (dimensions < 2 || dimensions > 4) {
+            throw new Error(`Cannot write ${dimensions} coordinates per point as WKB`);
+        }
+
+        // Little-endian throughout
+        const bytes: number[] = [];
+        const scratch = new DataView(new ArrayBuffer(8));
+        const uint32 = (value: number) => {
+            scratch.setUint32(0, value, true);
+            bytes.push(...new Uint8Array(scratch.buffer, 0, 4));
+        };
+        const float64 = (value: number) => {
+            if (!isFinite(value)) {
+                throw new Error(`Cannot write ${value} as a WKB coordinate`);
+            }
+            scratch.setFloat64(0, precision === undefined ? value : Number(value.toFixed(precision)) || 0, true);
+            bytes.push(...new Uint8Array(scratch.buffer));
+        };
+        const points = (list: Coordinates[]) => {
+            uint32(list.length);
+            for (const point of list) {
+                if (point.length !== dimensions) {
+                    throw new Error("WKB needs the same number of coordinates for every point");
+                }
+                point.forEach(float64);
+            }
+        };
+        // Only the outermost header carries the SRID
+        const header = (type: number, outermost: boolean) => {
+            bytes.push(1);
+            if (srid === undefined) {
+                uint32(type + (dimensions === 3 ? 1000 : dimensions === 4 ? 3000 : 0));
+            } else {
+                const flags = (dimensions >= 3 ? EWKB_Z : 0) + (dimensions === 4 ? EWKB_M : 0) + (outermost ? EWKB_SRID : 0);
+                uint32(type + flags);
+                if (outermost) {
+                    uint32(srid);
+                }
+            }
+        };
+
+        switch (geometry.kind) {
+            case "LineString":
+                header(LINESTRING, true);
+                points(geometry.points);
+                break;
+            case "Polygon":
+                header(POLYGON, true);
+                uint32(geometry.rings.length);
+                geometry.rings.forEach(points);
+                break;
+            case "MultiLineString":
+                header(MULTILINESTRING, true);
+                uint32(geometry.lines.length);
+                for (const line of geometry.lines) {
+                    header(LINESTRING, false);
+                    points(line);
+                }
+                break;
+            case "MultiPolygon":
+                header(MULTIPOLYGON, true);
+                uint32(geometry.polygons.length);
+                for (const rings of geometry.polygons) {
+                    header(POLYGON, false);
+                    uint32(rings.length);
+                    rings.forEach(points);
+                }
+                break;
+        }
+        return new Uint8Array(bytes);
+    }
+
+    static toHex(bytes: Uint8Array): string {
+        return Array.from(bytes, byte => byte.toString(16).padStart(2, "0")).join("").toUpperCase();
+    }
+
+    private static fromHex(hex: string): Uint8Array {
+        const digits = hex.trim().replace(/^\\x/, "");
+        if (digits.length % 2 !== 0 || /[^0-9a-fA-F]/.test(digits)) {
+            throw new Error("WKB hex must be an even number of hexadecimal digits");
+        }
+        return Uint8Array.from({ length: digits.length / 2 }, (_, i) => parseInt(digits.slice(2 * i, 2 * i + 2), 16));
+    }
+}
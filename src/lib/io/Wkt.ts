@@ -0,0 +1,163 @@
+import { Polygon } from "../skeleton/Polygon";
+import { Coordinates, SimpleFeatures, SimpleGeometry } from "./SimpleFeatures";
+
+const TOKEN = /\s*([A-Za-z]+|[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?|[(),;=])/y;
+
+// Reads through the tokens of one WKT text
+class WktParser {
+    private readonly tokens: string[] = [];
+    private position = 0;
+
+    constructor(text: string) {
+        let offset = 0;
+        for (;;) {
+            TOKEN.lastIndex = offset;
+            const match = TOKEN.exec(text);
+            if (!match) {
+                break;
+            }
+            this.tokens.push(match[1]);
+            offset = TOKEN.lastIndex;
+        }
+        if (text.slice(offset).trim() !== "") {
+            throw new Error(`Unexpected WKT at offset ${offset}: "${text.slice(offset, offset + 10)}"`);
+        }
+    }
+
+    geometry(): SimpleGeometry {
+        // EWKT, as PostGIS writes it, prefixes an SRID the plane does not need
+        if (this.peek()?.toUpperCase() === "SRID") {
+            this.next();
+            this.expect("=");
+            this.number();
+            this.expect(";");
+        }
+
+        const type = this.next().toUpperCase();
+        // Z and M values are carried along, whichever tag announces them
+        if (["Z", "M", "ZM"].includes(this.peek()?.toUpperCase() ?? "")) {
+            this.next();
+        }
+
+        let geometry: SimpleGeometry;
+        switch (type) {
+            case "POLYGON":
+                geometry = { kind: "Polygon", rings: this.list(() => this.points()) };
+                break;
+            case "MULTIPOLYGON":
+                geometry = { kind: "MultiPolygon", polygons: this.list(() => this.list(() => this.points())) };
+                break;
+            case "LINESTRING":
+                geometry = { kind: "LineString", points: this.points() };
+                break;
+            case "MULTILINESTRING":
+                geometry = { kind: "MultiLineString", lines: this.list(() => this.points()) };
+                break;
+            default:
+                throw new Error(`Unsupported WKT geometry type: ${type}`);
+        }
+
+        if (this.position < this.tokens.length) {
+            throw new Error(`Unexpected WKT token after the geometry: ${this.tokens[this.position]}`);
+        }
+        return geometry;
+    }
+
+    private points(): Coordinates[] {
+        return this.list(() => {
+            const coordinates = [this.number(), this.number()];
+            while (this.peek() !== "," && this.peek() !== ")") {
+                coordinates.push(this.number());
+            }
+            return coordinates;
+        });
+    }
+
+    private list<T>(item: () => T): T[] {
+        // EMPTY, or items in parentheses separated by commas
+        if (this.peek()?.toUpperCase() === "EMPTY") {
+            this.next();
+            return [];
+        }
+        this.expect("(");
+        const items = [item()];
+        while (this.peek() === ",") {
+            this.next();
+            items.push(item());
+        }
+        this.expect(")");
+        return items;
+    }
+
+    private number(): number {
+        const token = this.next();
+        const value = Number(token);
+        if (!isFinite(value)) {
+            throw new Error(`Expected a number in WKT, got ${token}`);
+        }
+        return value;
+    }
+
+    private expect(token: string): void {
+        const actual = this.next();
+        if (actual !== token) {
+            throw new Error(`Expected "${token}" in WKT, got "${actual}"`);
+        }
+    }
+
+    private peek(): string | undefined {
+        return this.tokens[this.position];
+    }
+
+    private next(): string {
+        if (this.position >= this.tokens.length) {
+            throw new Error("Unexpected end of WKT");
+        }
+        return this.tokens[this.position++];
+    }
+}
+
+// Well-known text for the polygons and lines the skeleton reads and writes
+export class Wkt {
+    static parse(text: string): SimpleGeometry {
+        return new WktParser(text).geometry();
+    }
+
+    static readPolygons(text: string): Polygon[] {
+        return SimpleFeatures.toPolygons(Wkt.parse(text));
+    }
+
+    static write(geometry: SimpleGeometry, precision?: number): string {
+        // Coordinates are rounded to the given number of decimal places,
+        // or written in full
+        const number = (value: number) => {
+            if (!isFinite(value)) {
+                throw new Error(`Cannot write ${value} as a WKT coordinate`);
+            }
+            return String(precision === undefined ? value : Number(value.toFixed(precision)) || 0);
+        };
+        const points = (list: Coordinates[]) => Wkt.list(list.map(p => p.map(number).join(" ")));
+        const dimension = Wkt.dimension(geometry);
+
+        switch (geometry.kind) {
+            case "Polygon":
+                return `POLYGON${dimension} ${Wkt.list(geometry.rings.map(points))}`;
+            case "MultiPolygon":
+                return `MULTIPOLYGON${dimension} ${Wkt.list(geometry.polygons.map(rings => Wkt.list(rings.map(points))))}`;
+            case "LineString":
+                return `LINESTRING${dimension} ${points(geometry.points)}`;
+            case "MultiLineString":
+                return `MULTILINESTRING${dimension} ${Wkt.list(geometry.lines.map(points))}`;
+        }
+    }
+
+    private static list(items: string[]): string {
+        return items.length === 0 ? "EMPTY" : `(${items.join(", ")})`;
+    }
+
+    private static dimension(geometry: SimpleGeometry): string {
+        // Three coordinates are written as Z, four as ZM
+        const first = SimpleFeatures.coordinates(geometry)[0];
+        return first?.length === 3 ? " Z" : first?.length === 4 ? " ZM" : "";
+    }
+}
@@ -0,0 +1,59 @@
+import { Renderer, ScreenPoint, StrokeStyle, TextStyle } from "./Renderer";
+
+// Draws straight onto a 2D canvas, which has no notion of layers
+export class CanvasRenderer implements Renderer {
+    constructor(private readonly ctx: CanvasRenderingContext2D) {}
+
+    clear(): void {
+        this.ctx.clearRect(0, 0, this.ctx.canvas.width, this.ctx.canvas.height);
+    }
+
+    beginLayer(_name: string): void {
+        this.ctx.save();
+    }
+
+    endLayer(): void {
+        this.ctx.restore();
+    }
+
+    polyline(points: ScreenPoint[], stroke: StrokeStyle, closed = false): void {
+        if (points.length === 0) {
+            return;
+        }
+        this.ctx.strokeStyle = stroke.color;
+        this.ctx.lineWidth = stroke.width;
+        this.ctx.beginPath();
+        points.forEach((point, i) => i === 0 ? this.ctx.moveTo(point.x, point.y) : this.ctx.lineTo(point.x, point.y));
+        if (closed) {
+            this.ctx.closePath();
+        }
+        this.ctx.stroke();
+    }
+
+    rect(x: number, y: number, width: number, height: number, fill: string): void {
+        this.ctx.fillStyle = fill;
+        this.ctx.fillRect(x, y, width, height);
+    }
+
+    circle(centre: ScreenPoint, radius: number, style: { fill?: string; stroke?: StrokeStyle }): void {
+        this.ctx.beginPath();
+        this.ctx.arc(centre.x, centre.y, radius, 0, 2 * Math.PI);
+        if (style.fill) {
+            this.ctx.fillStyle = style.fill;
+            this.ctx.fill();
+        }
+        if (style.stroke) {
+            this.ctx.strokeStyle = style.stroke.color;
+            this.ctx.lineWidth = style.stroke.width;
+            this.ctx.stroke();
+        }
+    }
+
+    text(text: string, anchor: ScreenPoint, style: TextStyle): void {
+        this.ctx.fillStyle = style.color;
+        this.ctx.font = `${style.size}px monospace`;
+        this.ctx.textAlign = style.align;
+        this.ctx.textBaseline = "middle";
+        this.ctx.fillText(text, anchor.x, anchor.y);
+    }
+}
@@ -0,0 +1,32 @@
+// Drawing primitives shared by the canvas view and the exported documents.
+// Coordinates are in screen space: pixels, y pointing down
+
+export interface ScreenPoint {
+    x: number;
+    y: number;
+}
+
+export interface StrokeStyle {
+    color: string;
+    width: number;
+}
+
+export interface TextStyle {
+    color: string;
+    size: number;                           // Pixels, in a monospace font
+    align: "left" | "right" | "center";     // Relative to the anchor; text is centred on it vertically
+}
+
+export interface Renderer {
+    clear(): void;
+
+    // Groups what is drawn until endLayer() under a name, for renderers that
+    // keep structure
+    beginLayer(name: string): void;
+    endLayer(): void;
+
+    polyline(points: ScreenPoint[], stroke: StrokeStyle, closed?: boolean): void;
+    rect(x: number, y: number, width: number, height: number, fill: string): void;
+    circle(centre: ScreenPoint, radius: number, style: { fill?: string; stroke?: StrokeStyle }): void;
+    text(text: string, anchor: ScreenPoint, style: TextStyle): void;
+}
@@ -0,0 +1,83 @@
+import { Renderer, ScreenPoint, StrokeStyle, TextStyle } from "./Renderer";
+
+const ANCHORS = { left: "start", right: "end", center: "middle" };
+
+// Builds a standalone SVG document of the given size in pixels, with one
+// <g> group per layer
+export class SvgRenderer implements Renderer {
+    private lines: string[] = [];
+    private depth = 0;
+
+    constructor(private readonly width: number, private readonly height: number, private readonly precision = 2) {}
+
+    clear(): void {
+        this.lines = [];
+        this.depth = 0;
+    }
+
+    beginLayer(name: string): void {
+        this.add(`<g id="${SvgRenderer.escape(name)}">`);
+        this.depth++;
+    }
+
+    endLayer(): void {
+        if (this.depth === 0) {
+            throw new Error("No SVG layer to end");
+        }
+        this.depth--;
+        this.add("</g>");
+    }
+
+    polyline(points: ScreenPoint[], stroke: StrokeStyle, closed = false): void {
+        if (points.length === 0) {
+            return;
+        }
+        const coordinates = points.map(p => `${this.number(p.x)},${this.number(p.y)}`).join(" ");
+        this.add(`<${closed ? "polygon" : "polyline"} points="${coordinates}" fill="none" ${this.stroke(stroke)}/>`);
+    }
+
+    rect(x: number, y: number, width: number, height: number, fill: string): void {
+        this.add(`<rect x="${this.number(x)}" y="${this.number(y)}" width="${this.number(width)}" ` +
+            `height="${this.number(height)}" fill="${fill}"/>`);
+    }
+
+    circle(centre: ScreenPoint, radius: number, style: { fill?: string; stroke?: StrokeStyle }): void {
+        const paint = `fill="${style.fill ?? "none"}"` + (style.stroke ? ` ${this.stroke(style.stroke)}` : "");
+        this.add(`<circle cx="${this.number(centre.x)}" cy="${this.number(centre.y)}" r="${this.number(radius)}" ${paint}/>`);
+    }
+
+    text(text: string, anchor: ScreenPoint, style: TextStyle): void {
+        this.add(`<text x="${this.number(anchor.x)}" y="${this.number(anchor.y)}" fill="${style.color}" ` +
+            `font-family="monospace" font-size="${style.size}" text-anchor="${ANCHORS[style.align]}" ` +
+            `dominant-baseline="middle">${SvgRenderer.escape(text)}</text>`);
+    }
+
+    toString(): string {
+        if (this.depth !== 0) {
+            throw new Error(`${this.depth} SVG layers are still open`);
+        }
+        return [
+            `<?xml version="1.0" encoding="UTF-8"?>`,
+            `<svg xmlns="http://www.w3.org/2000/svg" width="${this.width}" height="${this.height}" ` +
+                `viewBox="0 0 ${this.width} ${this.height}">`,
+            ...this.lines,
+            "</svg>"
+        ].join("\n") + "\n";
+    }
+
+    private add(element: string): void {
+        this.lines.push("  ".repeat(this.depth + 1) + element);
+    }
+
+    private stroke(stroke: StrokeStyle): string {
+        return `stroke="${stroke.color}" stroke-width="${this.number(stroke.width)}"`;
+    }
+
+    private number(value: number): string {
+        return String(Number(value.toFixed(this.precision)) || 0);
+    }
+
+    private static escape(text: string): string {
+        return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+    }
+}
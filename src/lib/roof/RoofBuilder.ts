@@ -0,0 +1,131 @@
+import { Angle } from "../skeleton/Angle";
+import { Face } from "../skeleton/Face";
+import { Skeleton } from "../skeleton/Skeleton";
+import { Vector } from "../skeleton/Vector";
+import { RoofMesh } from "./RoofMesh";
+
+export class RoofBuilder {
+    private positions: number[] = [];
+    private normals: number[] = [];
+    private indices: number[] = [];
+    private faceIds: number[] = [];
+    private gableFaceIds: number[] = [];
+
+    private constructor(private readonly pitch: Angle) {
+        const degrees = pitch.toDegrees();
+        if (!(degrees > 0 && degrees < 90)) {
+            throw new Error(`Roof pitch must lie between 0 and 90 degrees, got ${degrees}`);
+        }
+    }
+
+    static build(skeleton: Skeleton, pitch: Angle): RoofMesh {
+        return RoofBuilder.fromFaces(skeleton.getFaces(), pitch);
+    }
+
+    static fromFaces(faces: Face[], pitch: Angle): RoofMesh {
+        const builder = new RoofBuilder(pitch);
+        faces.forEach(face => builder.addFace(face));
+        return new RoofMesh(builder.positions, builder.normals, builder.indices, builder.faceIds, builder.gableFaceIds);
+    }
+
+    private addFace(face: Face): void {
+        // Every point rises with the time the wavefront needed to reach it
+        const slope = this.pitch.tan();
+        const points = face.points.map((p, i): [number, number, number] => [p.x, p.y, face.times[i] * slope]);
+
+        // A gable edge stays put, so its face collapses onto the edge in plan.
+        // Lifted, that outline is the vertical wall under the gable; triangulate
+        // it in the wall's own plane, along the edge and up
+        let outline = face.points;
+        let normal: [number, number, number];
+        if (face.edge.isGable()) {
+            const start = face.edge.v1.position;
+            const direction = face.edge.supportDirection();
+            const outward = face.edge.normal().scale(-1);
+            outline = points.map(([x, y, z]) => new Vector(new Vector(x, y).minus(start).dot(direction), z));
+            normal = [outward.x, outward.y, 0];
+            this.gableFaceIds.push(face.id);
+        } else {
+            normal = RoofBuilder.planeNormal(points);
+        }
+
+        // Faces are planar, so each gets its own vertices and a flat normal
+        const base = this.positions.length / 3;
+        for (const point of points) {
+            this.positions.push(...point);
+            this.normals.push(...normal);
+        }
+
+        for (const [a, b, c] of RoofBuilder.triangulate(outline)) {
+            this.indices.push(base + a, base + b, base + c);
+            this.faceIds.push(face.id);
+        }
+    }
+
+    private static planeNormal(points: [number, number, number][]): [number, number, number] {
+        // Newell's method tolerates collinear points in the ring
+        let nx = 0, ny = 0, nz = 0;
+        for (let i = 0; i < points.length; i++) {
+            const [x1, y1, z1] = points[i];
+            const [x2, y2, z2] = points[(i + 1) % points.length];
+            nx += (y1 - y2) * (z1 + z2);
+            ny += (z1 - z2) * (x1 + x2);
+            nz += (x1 - x2) * (y1 + y2);
+        }
+        const length = Math.sqrt(nx * nx + ny * ny + nz * nz);
+        if (length === 0) {
+            throw new Error("Cannot compute the normal of a degenerate roof face");
+        }
+        return [nx / length, ny / length, nz / length];
+    }
+
+    private static triangulate(points: Vector[]): [number, number, number][] {
+        // Ear clipping on a counterclockwise outline; faces of reflex
+        // corners are not convex
+        const remaining = points.map((_, i) => i);
+        const triangles: [number, number, number][] = [];
+
+        while (remaining.length > 3) {
+            const n = remaining.length;
+            let ear = -1;
+
+            for (let i = 0; i < n && ear === -1; i++) {
+                const a = points[remaining[(i - 1 + n) % n]];
+                const b = points[remaining[i]];
+                const c = points[remaining[(i + 1) % n]];
+
+                if (b.minus(a).cross(c.minus(b)) <= 0) {
+                    continue; // Reflex or collinear corner
+                }
+
+                const blocked = remaining.some(j =>
+                    j !== remaining[(i - 1 + n) % n] && j !== remaining[i] && j !== remaining[(i + 1) % n] &&
+                    RoofBuilder.inTriangle(points[j], a, b, c));
+                if (!blocked) {
+                    ear = i;
+                }
+            }
+
+            // Only degenerate outlines have no ear; clip anyway to terminate
+            if (ear === -1) {
+                ear = 0;
+            }
+
+            triangles.push([
+                remaining[(ear - 1 + n) % n],
+                remaining[ear],
+                remaining[(ear + 1) % n]
+            ]);
+            remaining.splice(ear, 1);
+        }
+
+        triangles.push([remaining[0], remaining[1], remaining[2]]);
+        return triangles;
+    }
+
+    private static inTriangle(p: Vector, a: Vector, b: Vector, c: Vector): boolean {
+        return b.minus(a).cross(p.minus(a)) >= 0 &&
+            c.minus(b).cross(p.minus(b)) >= 0 &&
+            a.minus(c).cross(p.minus(c)) >= 0;
+    }
+}
@@ -0,0 +1,69 @@
+export class RoofMesh {
+    constructor(
+        public readonly positions: number[],  // x, y, z per vertex; z is the height above the eaves
+        public readonly normals: number[],    // Unit normal per vertex
+        public readonly indices: number[],    // Three vertex indices per triangle, counterclockwise seen from outside
+        public readonly faceIds: number[],    // Roof face (input edge index) of each triangle
+        public readonly gableFaceIds: number[] = []  // Faces that are vertical gable walls
+    ) {
+        if (positions.length % 3 !== 0 || normals.length !== positions.length) {
+            throw new Error("Roof mesh needs three coordinates and a normal per vertex");
+        }
+        if (indices.length % 3 !== 0 || faceIds.length !== indices.length / 3) {
+            throw new Error("Roof mesh needs three indices and a face id per triangle");
+        }
+    }
+
+    static merge(meshes: RoofMesh[]): RoofMesh {
+        // Later meshes get their vertex indices and face ids shifted so that
+        // faces of different footprints stay apart
+        const positions: number[] = [];
+        const normals: number[] = [];
+        const indices: number[] = [];
+        const faceIds: number[] = [];
+        const gableFaceIds: number[] = [];
+        let faceOffset = 0;
+
+        for (const mesh of meshes) {
+            const vertexOffset = positions.length / 3;
+            positions.push(...mesh.positions);
+            normals.push(...mesh.normals);
+            indices.push(...mesh.indices.map(i => i + vertexOffset));
+            faceIds.push(...mesh.faceIds.map(id => id + faceOffset));
+            gableFaceIds.push(...mesh.gableFaceIds.map(id => id + faceOffset));
+            faceOffset += mesh.faceIds.length > 0 ? Math.max(...mesh.faceIds) + 1 : 0;
+        }
+
+        return new RoofMesh(positions, normals, indices, faceIds, gableFaceIds);
+    }
+
+    vertexCount(): number {
+        return this.positions.length / 3;
+    }
+
+    triangleCount(): number {
+        return this.indices.length / 3;
+    }
+
+    getPosition(index: number): [number, number, number] {
+        return [this.positions[3 * index], this.positions[3 * index + 1], this.positions[3 * index + 2]];
+    }
+
+    getNormal(index: number): [number, number, number] {
+        return [this.normals[3 * index], this.normals[3 * index + 1], this.normals[3 * index + 2]];
+    }
+
+    getTriangle(index: number): [number, number, number] {
+        return [this.indices[3 * index], this.indices[3 * index + 1], this.indices[3 * index + 2]];
+    }
+
+    bounds(): { min: [number, number, number]; max: [number, number, number] } {
+        const min: [number, number, number] = [Infinity, Infinity, Infinity];
+        const max: [number, number, number] = [-Infinity, -Infinity, -Infinity];
+        for (let i = 0; i < this.positions.length; i++) {
+            min[i % 3] = Math.min(min[i % 3], this.positions[i]);
+            max[i % 3] = Math.max(max[i % 3], this.positions[i]);
+        }
+        return { min, max };
+    }
+}
@@ -0,0 +1,103 @@
+import { Angle } from "../skeleton/Angle";
+import { Face } from "../skeleton/Face";
+import { Predicates } from "../skeleton/Predicates";
+import { Skeleton } from "../skeleton/Skeleton";
+import { SpatialGrid } from "../skeleton/SpatialGrid";
+import { Vector } from "../skeleton/Vector";
+
+export interface RoofSample {
+    faceId: number;         // Face containing the point, as in Skeleton.getFaces()
+    time: number;           // When the wavefront reaches the point
+    height?: number;        // Height above the eaves, when a pitch was given
+    downslope: Vector;      // Unit direction in plan in which the roof falls, towards the face's eave
+}
+
+// Answers point queries on the roof over a skeleton. Faces are indexed in a
+// grid, so a query only tests the few faces near the point
+export class RoofSurface {
+    private readonly index: SpatialGrid<Face>;
+    private readonly tolerance: number;
+
+    private constructor(private readonly faces: Face[]) {
+        const points = faces.flatMap(face => face.points);
+        if (points.length === 0) {
+            throw new Error("Roof surface needs at least one face");
+        }
+        this.tolerance = Predicates.tolerance(...points);
+
+        const xs = points.map(p => p.x);
+        const ys = points.map(p => p.y);
+        this.index = new SpatialGrid(
+            new Vector(Math.min(...xs), Math.min(...ys)),
+            new Vector(Math.max(...xs), Math.max(...ys)),
+            faces.length,
+            this.tolerance
+        );
+
+        // Gable faces stand upright over their edge and cover no area in plan
+        faces.filter(face => !face.edge.isGable()).forEach(face => this.index.insert(face, face.points));
+    }
+
+    static build(skeleton: Skeleton): RoofSurface {
+        return new RoofSurface(skeleton.getFaces());
+    }
+
+    static fromFaces(faces: Face[]): RoofSurface {
+        return new RoofSurface(faces);
+    }
+
+    query(point: Vector, pitch?: Angle): RoofSample | null {
+        const candidates = this.index.query([point]);
+        const face = candidates.find(face => RoofSurface.contains(face.points, point)) ??
+            candidates.find(face => RoofSurface.distanceToBoundary(face.points, point) <= this.tolerance);
+        if (!face) {
+            return null; // Outside the footprint or inside a hole
+        }
+
+        // Every face is the plane rising from its input edge at the pace that
+        // edge moves, so the time is the distance from the edge's line
+        const edge = face.edge;
+        const normal = edge.normal();
+        const time = Math.max(0, point.minus(edge.v1.position).dot(normal)) / edge.weight;
+
+        const sample: RoofSample = { faceId: face.id, time, downslope: normal.scale(-1) };
+        if (pitch) {
+            sample.height = time * pitch.tan();
+        }
+        return sample;
+    }
+
+    queryAll(points: Vector[], pitch?: Angle): (RoofSample | null)[] {
+        return points.map(point => this.query(point, pitch));
+    }
+
+    getFaces(): Face[] {
+        return [...this.faces];
+    }
+
+    // Ray casting, as for polygon rings
+    private static contains(ring: Vector[], point: Vector): boolean {
+        let inside = false;
+        for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+            const vi = ring[i];
+            const vj = ring[j];
+            if ((vi.y > point.y) !== (vj.y > point.y)) {
+                const side = Predicates.orient2d(vj, vi, point);
+                if (vi.y > vj.y ? side > 0 : side < 0) {
+                    inside = !inside;
+                }
+            }
+        }
+        return inside;
+    }
+
+    private static distanceToBoundary(ring: Vector[], point: Vector): number {
+        return Math.min(...ring.map((start, i) => {
+            const end = ring[(i + 1) % ring.length];
+            const segment = end.minus(start);
+            const lengthSquared = segment.dot(segment);
+            const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, point.minus(start).dot(segment) / lengthSquared));
+            return point.minus(start.plus(segment.scale(t))).length();
+        }));
+    }
+}
@@ -2,17 +2,27 @@ import { Vector } from "./Vector";
 import { Vertex } from "./Vertex";
 
 export class Edge {
+    private static count = 0;
+
+    readonly id: number;    // Unique among all edges, to name them in logs
     v1: Vertex;
     v2: Vertex;
-    
-    constructor(v1: Vertex, v2: Vertex) {
+    source: Edge;   // Input edge whose supporting line this edge lies on
+    weight: number; // Speed at which the edge moves inward
+    faces: Edge[];  // Skeleton edges only: input edges of the two faces on either side
+
+    constructor(v1: Vertex, v2: Vertex, source?: Edge) {
         if (!v1 || !v2) {
             throw new Error("Edge must have two valid vertices");
         }
+        this.id = Edge.count++;
         this.v1 = v1;
         this.v2 = v2;
+        this.source = source ?? this;
+        this.weight = source ? source.weight : 1;
+        this.faces = [];
     }
-    
+
     length(): number {
         // Calculate Euclidean distance between vertices
         return new Vector(
@@ -20,7 +30,12 @@ export class Edge {
             this.v2.position.y - this.v1.position.y
         ).length();
     }
-    
+
+    lengthAt(time: number): number {
+        // Length of a wavefront edge once its endpoints have moved on
+        return this.v2.positionAt(time).minus(this.v1.positionAt(time)).length();
+    }
+
     direction(): Vector {
         // Returns normalized vector from v1 to v2
         return new Vector(
@@ -28,26 +43,46 @@ export class Edge {
             this.v2.position.y - this.v1.position.y
         ).normalize();
     }
-    
+
+    supportDirection(): Vector {
+        // Wavefront edges shrink to zero length at events, so take the
+        // direction from the input edge, which never moves
+        return this.source === this ? this.direction() : this.source.supportDirection();
+    }
+
+    normal(): Vector {
+        // Inward normal for a CCW ring: the interior lies to the left
+        const direction = this.supportDirection();
+        return new Vector(-direction.y, direction.x);
+    }
+
+    isGable(): boolean {
+        // A gable end does not move: its roof face is a vertical wall
+        return this.weight === 0;
+    }
+
     hasReflexEndpoint(): boolean {
         // An edge can't be part of an edge event if either endpoint is reflex
         return this.v1.isReflex() || this.v2.isReflex();
     }
-    
+
     isAdjacent(vertex: Vertex): boolean {
         // Check if the vertex is one of the endpoints
         // or adjacent to either endpoint in the polygon
-        return vertex === this.v1 || 
+        return vertex === this.v1 ||
                vertex === this.v2 ||
                vertex === this.v1.next ||
                vertex === this.v1.prev ||
                vertex === this.v2.next ||
                vertex === this.v2.prev;
     }
-    
+
     clone(): Edge {
         // Note: this creates a new edge with references to the same vertices
         // The calling code should update these references as needed
-        return new Edge(this.v1, this.v2);
+        const edge = new Edge(this.v1, this.v2, this.source);
+        edge.weight = this.weight;
+        edge.faces = [...this.faces];
+        return edge;
     }
-}
\ No newline at end of file
+}
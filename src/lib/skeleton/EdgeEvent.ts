@@ -1,5 +1,7 @@
 import { Edge } from "./Edge";
 import { Event } from "./Event";
+import { Vector } from "./Vector";
+import { Vertex } from "./Vertex";
 import { Wavefront } from "./Wavefront";
 
 export class EdgeEvent extends Event {
@@ -12,41 +14,52 @@ export class EdgeEvent extends Event {
         if (!edge) {
             throw new Error("EdgeEvent requires a valid edge");
         }
-
-        if (edge.hasReflexEndpoint()) {
-            throw new Error("Edge cannot have reflex vertices for edge event");
-        }
     }
     
-    override process(wavefront: Wavefront): void {
+    override process(wavefront: Wavefront): Vertex[] {
         // Validate edge still exists and is valid
         if (!this.isStillValid(wavefront)) {
-            return; // Skip processing if edge is no longer valid
+            return []; // Skip processing if edge is no longer valid
         }
         
         // Process the edge collapse
-        wavefront.handleEdgeEvent(this);
+        return wavefront.handleEdgeEvent(this);
     }
 
-    private isStillValid(wavefront: Wavefront): boolean {
-        const currentPolygon = wavefront.getCurrentPolygon();
-        
-        // Check if edge still exists in current polygon
-        if (!currentPolygon.edges.includes(this.edge)) {
-            return false;
+    override whyInvalid(wavefront: Wavefront): string | null {
+        // Check if vertices are still part of the wavefront
+        const gone = [this.edge.v1, this.edge.v2].find(vertex => vertex.processed);
+        if (gone) {
+            return `Vertex ${gone.id} has already left the wavefront`;
         }
 
-        // Check if vertices are still valid
-        if (!currentPolygon.vertices.includes(this.edge.v1) ||
-            !currentPolygon.vertices.includes(this.edge.v2)) {
-            return false;
+        // Check if edge still exists: any topology change around its
+        // endpoints replaces the edge object
+        if (this.edge.v1.nextEdge !== this.edge || this.edge.v2.prevEdge !== this.edge) {
+            return `Edge ${this.edge.id} was replaced by an earlier event`;
         }
+        return null;
+    }
 
-        // Check if vertices are still not reflex
-        if (this.edge.hasReflexEndpoint()) {
-            return false;
-        }
+    override get priority(): number {
+        // Collapses go first: they may remove the vertex of a pending split
+        return 0;
+    }
+
+    override getPoint(): Vector {
+        const v1 = this.edge.v1;
+        const v2 = this.edge.v2;
+        const start = v1.positionAt(this.time);
+        const end = v2.positionAt(this.time);
 
-        return true;
+        // A sliver tip runs down the sliver to meet its neighbour, otherwise
+        // both endpoints meet halfway
+        if (v1.isSliverTip() && !v2.isSliverTip()) {
+            return end;
+        }
+        if (v2.isSliverTip() && !v1.isSliverTip()) {
+            return start;
+        }
+        return start.plus(end).scale(0.5);
     }
-}
\ No newline at end of file
+}
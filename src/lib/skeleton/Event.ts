@@ -1,3 +1,5 @@
+import { Vector } from "./Vector";
+import { Vertex } from "./Vertex";
 import { Wavefront } from "./Wavefront";
 
 export abstract class Event {
@@ -13,9 +15,25 @@ export abstract class Event {
         this.time = time;
     }
     
-    abstract process(wavefront: Wavefront): void;
+    // Applies the event to the wavefront and returns the vertices it created,
+    // so the caller can schedule their events
+    abstract process(wavefront: Wavefront): Vertex[];
+
+    // Why earlier events keep this one from happening as scheduled, or
+    // null if it still happens
+    abstract whyInvalid(wavefront: Wavefront): string | null;
+
+    isStillValid(wavefront: Wavefront): boolean {
+        return this.whyInvalid(wavefront) === null;
+    }
+
+    // Where the wavefront changes when the event happens
+    abstract getPoint(): Vector;
+
+    // Decides between events at the same time: lower goes first
+    abstract get priority(): number;
 
     public compareTo(event: Event): number {
         return this.time - event.time;
     }
-}
\ No newline at end of file
+}
@@ -1,32 +1,185 @@
 
 import { Event as CustomEvent } from "./Event";
+import { Heap } from "./Heap";
+import { Vector } from "./Vector";
+
+interface Entry {
+    event: CustomEvent;
+    sequence: number;   // Insertion order, so that equal events leave first in, first out
+    point?: Vector;     // Where the event happens, once asked for
+    taken?: boolean;    // Held events only: already left in a cluster
+}
 
 export class EventQueue {
-    private events: CustomEvent[] = [];
-    
+    private heap = new Heap<Entry>(EventQueue.before);
+    private sequence = 0;
+
+    // Simultaneous events that pollCluster passed over because they happen
+    // elsewhere. They wait in a heap of their own and in cells as wide as
+    // the tolerance, so that the events at each further node are found by
+    // place instead of going through all the others again. Events taken
+    // from the cells stay in the heap until they come to the top
+    private held = new Heap<Entry>(EventQueue.before);
+    private heldCount = 0;
+    private cells = new Map<string, Entry[]>();
+    private cellSize = NaN;
+
     add(event: CustomEvent): void {
-        const index = this.events.findIndex(e => e.time > event.time);
-        
-        if (index === -1) {
-            this.events.push(event);
-        } else {
-            this.events.splice(index, 0, event);
-        }
+        this.heap.push({ event, sequence: this.sequence++ });
     }
-    
+
     poll(): CustomEvent | undefined {
-        return this.events.shift();
+        return this.take()?.event;
+    }
+
+    pollCluster(tolerance: number): CustomEvent[] {
+        // Takes the next event together with every event that happens at
+        // the same time and place, within the tolerance
+        const first = this.take();
+        if (!first) {
+            return [];
+        }
+        if (tolerance !== this.cellSize) {
+            this.regroup(tolerance);
+        }
+
+        // Events leave in time order, so the ones close enough in time come
+        // next in the heap; they join the held events
+        while (this.heap.size() > 0 && this.heap.peek()!.event.time - first.event.time <= tolerance) {
+            this.hold(this.heap.pop()!);
+        }
+
+        const point = EventQueue.pointOf(first);
+        const [column, row] = this.cellOf(point);
+        const cluster: Entry[] = [];
+        for (let i = column - 1; i <= column + 1; i++) {
+            for (let j = row - 1; j <= row + 1; j++) {
+                const key = `${i},${j}`;
+                const rest = (this.cells.get(key) ?? []).filter(entry => {
+                    if (entry.taken) {
+                        return false;
+                    }
+                    if (entry.event.time - first.event.time <= tolerance &&
+                        EventQueue.pointOf(entry).minus(point).length() <= tolerance) {
+                        this.release(entry);
+                        cluster.push(entry);
+                        return false;
+                    }
+                    return true;
+                });
+                if (rest.length > 0) {
+                    this.cells.set(key, rest);
+                } else {
+                    this.cells.delete(key);
+                }
+            }
+        }
+
+        cluster.sort((a, b) => EventQueue.before(a, b) ? -1 : 1);
+        return [first, ...cluster].map(entry => entry.event);
     }
-    
+
     peek(): CustomEvent | undefined {
-        return this.events[0];
+        return this.front()?.event;
     }
-    
+
+    toArray(limit = Infinity): CustomEvent[] {
+        // The first pending events in the order they leave, without taking
+        // them. Taken entries still in the held heap are skipped, so look that
+        // much further into it
+        const taken = this.held.size() - this.heldCount;
+        const held = this.held.first(limit + taken).filter(entry => !entry.taken);
+        const queued = this.heap.first(limit);
+        const result: Entry[] = [];
+        let i = 0;
+        let j = 0;
+        while (result.length < limit && (i < queued.length || j < held.length)) {
+            if (j >= held.length || (i < queued.length && EventQueue.before(queued[i], held[j]))) {
+                result.push(queued[i++]);
+            } else {
+                result.push(held[j++]);
+            }
+        }
+        return result.map(entry => entry.event);
+    }
+
     isEmpty(): boolean {
-        return this.events.length === 0;
+        return this.size() === 0;
     }
-    
+
     size(): number {
-        return this.events.length;
+        return this.heap.size() + this.heldCount;
+    }
+
+    private front(): Entry | undefined {
+        while (this.held.peek()?.taken) {
+            this.held.pop();
+        }
+        const held = this.held.peek();
+        const next = this.heap.peek();
+        return !held || (next && EventQueue.before(next, held)) ? next : held;
+    }
+
+    private take(): Entry | undefined {
+        const entry = this.front();
+        if (entry && entry === this.held.peek()) {
+            this.held.pop();
+            this.release(entry);
+        } else if (entry) {
+            this.heap.pop();
+        }
+        return entry;
+    }
+
+    private hold(entry: Entry): void {
+        this.held.push(entry);
+        this.heldCount++;
+        const key = this.cellOf(EventQueue.pointOf(entry)).join(',');
+        const cell = this.cells.get(key);
+        if (cell) {
+            cell.push(entry);
+        } else {
+            this.cells.set(key, [entry]);
+        }
+    }
+
+    private release(entry: Entry): void {
+        entry.taken = true;
+        if (--this.heldCount === 0) {
+            this.held.clear();
+            this.cells.clear();
+        }
+    }
+
+    private regroup(tolerance: number): void {
+        // Cells follow the tolerance of the latest cluster
+        const held = this.held.toArray().filter(entry => !entry.taken);
+        this.cellSize = tolerance;
+        this.held.clear();
+        this.heldCount = 0;
+        this.cells.clear();
+        held.forEach(entry => this.hold(entry));
+    }
+
+    private cellOf(point: Vector): [number, number] {
+        const size = this.cellSize > 0 ? this.cellSize : 1;
+        return [Math.floor(point.x / size), Math.floor(point.y / size)];
+    }
+
+    private static pointOf(entry: Entry): Vector {
+        // Vertices never change their motion, so the point stays the same
+        return entry.point ??= entry.event.getPoint();
+    }
+
+    private static before(a: Entry, b: Entry): boolean {
+        // Earlier events first; at equal times the event kinds decide, then
+        // the order in which the events were added
+        if (a.event.time !== b.event.time) {
+            return a.event.time < b.event.time;
+        }
+        if (a.event.priority !== b.event.priority) {
+            return a.event.priority < b.event.priority;
+        }
+        return a.sequence < b.sequence;
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,154 @@
+import { Edge } from "./Edge";
+import { Vector } from "./Vector";
+
+export class Face {
+    neighbours: number[] = [];  // Ids of the faces sharing a skeleton edge with this one
+
+    constructor(
+        public readonly id: number,         // Index of the input edge, outer ring first, then holes
+        public readonly edge: Edge,         // Input edge the face rises from
+        public readonly points: Vector[],   // Counterclockwise ring starting with the input edge
+        public readonly times: number[]     // Wavefront arrival time at each point
+    ) {
+        if (points.length < 3) {
+            throw new Error(`Face ${id} must have at least 3 points`);
+        }
+        if (points.length !== times.length) {
+            throw new Error(`Face ${id} needs one arrival time per point`);
+        }
+    }
+
+    area(): number {
+        let area = 0;
+        // Using shoelace formula
+        for (let i = 0; i < this.points.length; i++) {
+            const j = (i + 1) % this.points.length;
+            area += this.points[i].x * this.points[j].y - this.points[j].x * this.points[i].y;
+        }
+        return area / 2;
+    }
+
+    frontAt(time: number): [Vector, Vector][] {
+        // The segments of the wavefront crossing the face at the given time.
+        // Arrival times are linear over the face, so the front meets its
+        // boundary where the times pass the given one. Along the edge's line
+        // the crossings pair up, entering and leaving the face
+        const crossings: Vector[] = [];
+        for (let i = 0; i < this.points.length; i++) {
+            const j = (i + 1) % this.points.length;
+            const [ti, tj] = [this.times[i], this.times[j]];
+            if ((ti <= time) !== (tj <= time)) {
+                const s = (time - ti) / (tj - ti);
+                crossings.push(this.points[i].plus(this.points[j].minus(this.points[i]).scale(s)));
+            }
+        }
+
+        const direction = this.edge.supportDirection();
+        crossings.sort((a, b) => a.dot(direction) - b.dot(direction));
+        const segments: [Vector, Vector][] = [];
+        for (let i = 0; i + 1 < crossings.length; i += 2) {
+            segments.push([crossings[i], crossings[i + 1]]);
+        }
+        return segments;
+    }
+
+    static fromSkeleton(sources: Edge[], arcs: Edge[]): Face[] {
+        // Snap tolerance for nodes that several events computed separately
+        const extent = Math.max(1, ...sources.map(e => e.v1.position.length()));
+        const tolerance = 1e-9 * extent;
+
+        // The arcs around each face, gathered in one pass
+        const ids = new Map(sources.map((source, id) => [source, id]));
+        const boundaries = new Map<Edge, Edge[]>(sources.map(source => [source, []]));
+        for (const arc of arcs) {
+            new Set(arc.faces).forEach(source => boundaries.get(source)?.push(arc));
+        }
+
+        const faces = sources.map((source, id) => Face.traceRing(id, source, boundaries.get(source)!, tolerance));
+
+        // Faces are adjacent when a skeleton edge separates them
+        for (const arc of arcs) {
+            const [left, right] = arc.faces.map(source => ids.get(source) ?? -1);
+            if (left === right || left < 0 || right < 0) {
+                continue;
+            }
+            if (!faces[left].neighbours.includes(right)) {
+                faces[left].neighbours.push(right);
+                faces[right].neighbours.push(left);
+            }
+        }
+        faces.forEach(face => face.neighbours.sort((a, b) => a - b));
+
+        return faces;
+    }
+
+    private static traceRing(id: number, source: Edge, boundary: Edge[], tolerance: number): Face {
+        const start = source.v1;
+        const points = [source.v1.position, source.v2.position];
+        const times = [source.v1.time, source.v2.time];
+
+        // Arcs by the cells of their endpoints, as wide as the tolerance, so
+        // that each step only compares the arcs ending close by
+        const cell = (point: Vector) => [Math.round(point.x / tolerance), Math.round(point.y / tolerance)];
+        const ends = new Map<string, Edge[]>();
+        for (const arc of boundary) {
+            for (const end of new Set([arc.v1, arc.v2])) {
+                const key = cell(end.position).join(',');
+                const arcs = ends.get(key);
+                if (arcs) {
+                    arcs.push(arc);
+                } else {
+                    ends.set(key, [arc]);
+                }
+            }
+        }
+        const unused = new Set(boundary);
+
+        // Walk from the end of the input edge through the skeleton back to
+        // its start; the face lies to the left, so the ring comes out CCW
+        let current = source.v2.position;
+        while (current.minus(start.position).length() > tolerance) {
+            let best: Edge | null = null;
+            let bestDistance = tolerance;
+            let forward = true;
+
+            const [column, row] = cell(current);
+            for (let i = column - 1; i <= column + 1; i++) {
+                for (let j = row - 1; j <= row + 1; j++) {
+                    for (const arc of ends.get(`${i},${j}`) ?? []) {
+                        if (!unused.has(arc)) {
+                            continue;
+                        }
+                        const toStart = arc.v1.position.minus(current).length();
+                        const toEnd = arc.v2.position.minus(current).length();
+                        if (toStart <= bestDistance) {
+                            best = arc;
+                            bestDistance = toStart;
+                            forward = true;
+                        }
+                        if (toEnd <= bestDistance) {
+                            best = arc;
+                            bestDistance = toEnd;
+                            forward = false;
+                        }
+                    }
+                }
+            }
+
+            if (!best) {
+                throw new Error(`Face ${id} is not closed at (${current.x}, ${current.y})`);
+            }
+
+            unused.delete(best);
+            const next = forward ? best.v2 : best.v1;
+            current = next.position;
+
+            if (current.minus(start.position).length() > tolerance) {
+                points.push(current);
+                times.push(next.time);
+            }
+        }
+
+        return new Face(id, source, points, times);
+    }
+}
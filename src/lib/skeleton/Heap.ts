@@ -0,0 +1,96 @@
+// Binary min-heap: the children of item i sit at 2i + 1 and 2i + 2. The
+// comparison tells whether the first item must leave before the second
+export class Heap<T> {
+    private items: T[] = [];
+
+    constructor(private readonly before: (a: T, b: T) => boolean) {}
+
+    push(item: T): void {
+        const items = this.items;
+        items.push(item);
+
+        // Sift up
+        let i = items.length - 1;
+        while (i > 0) {
+            const parent = (i - 1) >> 1;
+            if (!this.before(items[i], items[parent])) {
+                break;
+            }
+            [items[i], items[parent]] = [items[parent], items[i]];
+            i = parent;
+        }
+    }
+
+    pop(): T | undefined {
+        const items = this.items;
+        if (items.length === 0) {
+            return undefined;
+        }
+
+        const top = items[0];
+        const last = items.pop()!;
+        if (items.length === 0) {
+            return top;
+        }
+        items[0] = last;
+
+        // Sift down
+        let i = 0;
+        for (;;) {
+            const left = 2 * i + 1;
+            const right = left + 1;
+            let smallest = i;
+            if (left < items.length && this.before(items[left], items[smallest])) {
+                smallest = left;
+            }
+            if (right < items.length && this.before(items[right], items[smallest])) {
+                smallest = right;
+            }
+            if (smallest === i) {
+                break;
+            }
+            [items[i], items[smallest]] = [items[smallest], items[i]];
+            i = smallest;
+        }
+
+        return top;
+    }
+
+    peek(): T | undefined {
+        return this.items[0];
+    }
+
+    size(): number {
+        return this.items.length;
+    }
+
+    clear(): void {
+        this.items = [];
+    }
+
+    first(count: number): T[] {
+        // The count items that would be popped first, in that order, without
+        // popping them: the next one is always a child of one already taken
+        const items = this.items;
+        const result: T[] = [];
+        const frontier = new Heap<number>((a, b) => this.before(items[a], items[b]));
+        if (items.length > 0) {
+            frontier.push(0);
+        }
+        while (result.length < count && frontier.size() > 0) {
+            const i = frontier.pop()!;
+            result.push(items[i]);
+            for (const child of [2 * i + 1, 2 * i + 2]) {
+                if (child < items.length) {
+                    frontier.push(child);
+                }
+            }
+        }
+        return result;
+    }
+
+    toArray(): T[] {
+        // In heap order, not sorted
+        return [...this.items];
+    }
+}
@@ -0,0 +1,76 @@
+export type LogLevel = "trace" | "debug" | "info" | "warn" | "error";
+
+// From most to least verbose
+const LEVELS: LogLevel[] = ["trace", "debug", "info", "warn", "error"];
+
+export interface LogRecord {
+    level: LogLevel;
+    message: string;
+    timestamp: string;      // ISO date of the moment the record was made
+    event?: string;         // Kind of event being processed
+    time?: number;          // Wavefront time
+    vertices?: number[];    // Ids of the vertices involved
+    edges?: number[];       // Ids of the edges involved
+}
+
+export interface Logger {
+    log(record: LogRecord): void;
+}
+
+export function isLevelEnabled(level: LogLevel, threshold: LogLevel): boolean {
+    return LEVELS.indexOf(level) >= LEVELS.indexOf(threshold);
+}
+
+export function formatRecord(record: LogRecord): string {
+    const context = [
+        record.event,
+        record.time !== undefined ? `t=${record.time}` : undefined,
+        record.vertices?.length ? `vertices ${record.vertices.join(",")}` : undefined,
+        record.edges?.length ? `edges ${record.edges.join(",")}` : undefined
+    ].filter(part => part !== undefined);
+    const suffix = context.length > 0 ? ` [${context.join("; ")}]` : "";
+    return `[${record.timestamp}] ${record.level.toUpperCase()} ${record.message}${suffix}`;
+}
+
+// Writes to the console: one line of text per record, or the records
+// themselves for tools that filter on their fields
+export class ConsoleLogger implements Logger {
+    constructor(private readonly structured = false) {}
+
+    log(record: LogRecord): void {
+        const write = record.level === "error" ? console.error
+            : record.level === "warn" ? console.warn
+            : console.log;
+        write(this.structured ? record : formatRecord(record));
+    }
+}
+
+// Keeps the last records only, so that long builds cannot fill the memory
+export class RingBuffer<T> {
+    private items: T[] = [];
+    private start = 0;  // Index of the oldest item once the buffer is full
+
+    constructor(private readonly capacity: number) {
+        if (!(capacity >= 0)) {
+            throw new Error(`Ring buffer capacity must be non-negative, got ${capacity}`);
+        }
+    }
+
+    push(item: T): void {
+        if (this.items.length < this.capacity) {
+            this.items.push(item);
+        } else if (this.capacity > 0) {
+            this.items[this.start] = item;
+            this.start = (this.start + 1) % this.capacity;
+        }
+    }
+
+    toArray(): T[] {
+        // Oldest first
+        return [...this.items.slice(this.start), ...this.items.slice(0, this.start)];
+    }
+
+    size(): number {
+        return this.items.length;
+    }
+}
@@ -0,0 +1,220 @@
+import { Angle } from "./Angle";
+import { Polygon } from "./Polygon";
+import { PolygonValidator } from "./PolygonValidator";
+import { Predicates } from "./Predicates";
+import { Skeleton } from "./Skeleton";
+import { Vector } from "./Vector";
+
+export type JoinStyle = "mitre" | "round" | "bevel";
+
+export interface OffsetOptions {
+    // Shape of the corners an outward offset moves away from. Inward offsets
+    // follow the wavefront, whose corners are always mitred
+    join?: JoinStyle;
+    // Mitres reaching further than this many times the distance are beveled
+    mitreLimit?: number;
+    // Largest turn between two segments of a round join
+    roundStep?: Angle;
+}
+
+// A ring prepared for offsetting, with the weight of the edge leaving each point
+interface WeightedRing {
+    points: Vector[];
+    weights: number[];
+    reach: number;      // How far the offset at the given distance gets from the ring
+}
+
+// Offsets of polygons by evaluating the wavefront of the straight skeleton
+// at the offset distance. Edges of weight 1 move by the distance; weighted
+// edges move proportionally. Results are polygons with holes, as many as
+// the offset breaks into
+export class Offset {
+    static offset(polygon: Polygon, distance: number, options: OffsetOptions = {}): Polygon[] {
+        // Positive distances shrink the polygon, negative ones grow it
+        return distance >= 0
+            ? Offset.inward(polygon, distance)
+            : Offset.outward(polygon, -distance, options);
+    }
+
+    static inward(polygon: Polygon, distance: number): Polygon[] {
+        Offset.checkDistance(distance);
+        const front = Skeleton.build(polygon, { snapshots: false, until: distance }).getFront();
+        return Offset.assemble(front.map(ring => ring.vertices.map(v => v.position)));
+    }
+
+    static outward(polygon: Polygon, distance: number, options: OffsetOptions = {}): Polygon[] {
+        Offset.checkDistance(distance);
+        const issues = PolygonValidator.validate(polygon);
+        if (issues.length > 0) {
+            throw new Error(`Cannot offset an invalid polygon: ${issues[0].message}`);
+        }
+        if (distance === 0) {
+            return Offset.assemble(polygon.getRings().map(ring => ring.vertices.map(v => v.position)));
+        }
+
+        const settings: Required<OffsetOptions> = {
+            join: "mitre", mitreLimit: 4, roundStep: Angle.fromDegrees(10), ...options
+        };
+        if (!(settings.roundStep.toRadians() > 0)) {
+            throw new Error("Round joins need a positive step");
+        }
+
+        // The outer ring grows into the space around the polygon. Offset that
+        // space inward, within a box too wide for its own edges to get near
+        const outside = Offset.prepare(Offset.reversed(polygon.vertices.map(v => v.position)), distance, settings);
+        const margin = 2 * distance + outside.reach;
+        const xs = outside.points.map(p => p.x);
+        const ys = outside.points.map(p => p.y);
+        const [minX, minY] = [Math.min(...xs) - margin, Math.min(...ys) - margin];
+        const [maxX, maxY] = [Math.max(...xs) + margin, Math.max(...ys) + margin];
+        const space = new Polygon([
+            new Vector(minX, minY), new Vector(maxX, minY), new Vector(maxX, maxY), new Vector(minX, maxY)
+        ]);
+        space.addHole(outside.points, outside.weights);
+
+        // Apart from the shrunken box, the front runs around the offset, and
+        // around pockets the offset closes off, in the opposite direction
+        const front = Skeleton.build(space, { snapshots: false, until: distance }).getFront()
+            .map(ring => ring.vertices.map(v => v.position));
+        const box = front.reduce((largest, ring) => Offset.area(ring) > Offset.area(largest) ? ring : largest);
+        const rings = front.filter(ring => ring !== box).map(Offset.reversed);
+
+        // Holes shrink on their own, as polygons the other way round
+        for (const hole of polygon.holes) {
+            const inside = Offset.prepare(Offset.reversed(hole.vertices.map(v => v.position)), distance, settings);
+            Skeleton.build(new Polygon(inside.points, inside.weights), { snapshots: false, until: distance })
+                .getFront()
+                .forEach(ring => rings.push(Offset.reversed(ring.vertices.map(v => v.position))));
+        }
+
+        return Offset.assemble(rings);
+    }
+
+    private static checkDistance(distance: number): void {
+        if (!isFinite(distance) || distance < 0) {
+            throw new Error(`Offset distance must be finite and non-negative, got ${distance}`);
+        }
+    }
+
+    private static prepare(ring: Vector[], distance: number, settings: Required<OffsetOptions>): WeightedRing {
+        // The ring bounds the region being offset on its left. At reflex
+        // corners the mitred wavefront comes to a point; other joins cut the
+        // corner with short edges, one per segment of the join. Each starts
+        // just behind the corner and moves fast enough to lie on its segment
+        // at the offset distance: a bevel joins the ends of the offset edges,
+        // round segments touch the circle around the corner
+        const points: Vector[] = [];
+        const weights: number[] = [];
+        let reach = distance;
+
+        ring.forEach((corner, i) => {
+            const prev = ring[(i - 1 + ring.length) % ring.length];
+            const next = ring[(i + 1) % ring.length];
+            if (Predicates.orient2d(prev, corner, next) >= 0) {
+                points.push(corner);
+                weights.push(1);
+                return;
+            }
+
+            const incoming = corner.minus(prev).normalize();
+            const outgoing = next.minus(corner).normalize();
+            const turn = Math.acos(Math.max(-1, Math.min(1, incoming.dot(outgoing))));
+
+            const bevel = settings.join === "bevel" ||
+                (settings.join === "mitre" && 1 / Math.cos(turn / 2) > settings.mitreLimit);
+            let cuts = 0;
+            if (bevel) {
+                cuts = 1;
+            } else if (settings.join === "round") {
+                cuts = Math.max(1, Math.ceil(turn / settings.roundStep.toRadians()) - 1);
+            }
+
+            // Segment ends lie furthest out, at the corners between segments
+            const step = turn / (cuts + 1);
+            reach = Math.max(reach, distance / Math.cos(step / 2));
+            if (cuts === 0) {
+                points.push(corner);
+                weights.push(1);
+                return;
+            }
+
+            // Normals of the ring's edges point into the region; the segments'
+            // normals turn from the incoming to the outgoing one, clockwise
+            // as the ring does
+            const normal = (direction: Vector) => new Vector(-direction.y, direction.x);
+            const rotate = (v: Vector, angle: number) => new Vector(
+                v.x * Math.cos(angle) - v.y * Math.sin(angle),
+                v.x * Math.sin(angle) + v.y * Math.cos(angle));
+            const normals = [normal(incoming)];
+            for (let j = 1; j <= cuts; j++) {
+                normals.push(rotate(normal(incoming), -j * step));
+            }
+            normals.push(normal(outgoing));
+
+            // The segments start tangent to a small circle in the corner that
+            // touches both edges a hundredth of the shorter one from the corner
+            const half = (Math.PI - turn) / 2;
+            const radius = 0.01 * Math.min(distance, corner.minus(prev).length(), next.minus(corner).length()) * Math.tan(half);
+            const inward = normals[0].plus(normals[normals.length - 1]).normalize().scale(-1);
+            const centre = inward.scale(radius / Math.sin(half));
+
+            // Lines n · (x - corner) = h, from the incoming edge through the
+            // segments to the outgoing edge. The ends of the offset edges lie
+            // at the distance along their normals, so a bevel between them
+            // lies at the distance times the cosine of half the turn
+            const offsets = normals.map((n, j) => j === 0 || j === cuts + 1 ? 0 : radius + n.dot(centre));
+            const level = bevel ? distance * Math.cos(turn / 2) : distance;
+            for (let j = 0; j <= cuts; j++) {
+                const [n, m] = [normals[j], normals[j + 1]];
+                const [h1, h2] = [offsets[j], offsets[j + 1]];
+                const det = n.x * m.y - n.y * m.x;
+                points.push(corner.plus(new Vector((h1 * m.y - h2 * n.y) / det, (n.x * h2 - m.x * h1) / det)));
+                weights.push(j < cuts ? (level - offsets[j + 1]) / distance : 1);
+            }
+        });
+
+        return { points, weights, reach };
+    }
+
+    private static assemble(rings: Vector[][]): Polygon[] {
+        // Counterclockwise rings bound the result from outside, clockwise
+        // rings are holes in the smallest of them around them. Rings that
+        // are about to vanish have no width left and are dropped
+        const tolerance = Predicates.tolerance(...rings.flat());
+        const cleaned = rings
+            .map(ring => ring.filter((p, i) => p.minus(ring[(i + 1) % ring.length]).length() > tolerance))
+            .filter(ring => ring.length >= 3 && Math.abs(Offset.area(ring)) > tolerance * Offset.perimeter(ring));
+
+        const outers = cleaned
+            .filter(ring => Offset.area(ring) > 0)
+            .sort((a, b) => Offset.area(a) - Offset.area(b))
+            .map(ring => new Polygon(ring.map(p => p.clone())));
+        for (const hole of cleaned.filter(ring => Offset.area(ring) < 0)) {
+            const owner = outers.find(outer => outer.containsPoint(hole[0]));
+            if (!owner) {
+                throw new Error("Offset produced a hole outside every outer ring");
+            }
+            owner.addHole(hole.map(p => p.clone()));
+        }
+        return outers;
+    }
+
+    private static reversed(ring: Vector[]): Vector[] {
+        return [...ring].reverse();
+    }
+
+    private static area(ring: Vector[]): number {
+        // Shoelace formula, positive for counterclockwise rings
+        let area = 0;
+        for (let i = 0; i < ring.length; i++) {
+            const a = ring[i];
+            const b = ring[(i + 1) % ring.length];
+            area += a.x * b.y - b.x * a.y;
+        }
+        return area / 2;
+    }
+
+    private static perimeter(ring: Vector[]): number {
+        return ring.reduce((sum, p, i) => sum + ring[(i + 1) % ring.length].minus(p).length(), 0);
+    }
+}
@@ -1,18 +1,37 @@
 import { Edge } from "./Edge";
+import { Predicates } from "./Predicates";
 import { Vector } from "./Vector";
 import { Vertex } from "./Vertex";
 
+// An edge of a polygon: ring 0 is the outer ring, the holes follow
+export interface EdgeRef {
+    ring: number;
+    edge: number;
+}
+
 export class Polygon {
     vertices: Vertex[];
     edges: Edge[];
+    holes: Polygon[];   // Inner rings, clockwise
+    private hipWeights = new Map<number, number>();    // Weights of the edges made gables, by edge index
 
-    constructor(points: Vector[]) {
+    constructor(points: Vector[], weights?: number[]) {
         if (points.length < 3) {
             throw new Error("Polygon must have at least 3 points");
         }
+        if (weights && weights.length !== points.length) {
+            throw new Error(`Polygon needs one weight per edge: got ${weights.length} for ${points.length} edges`);
+        }
+        if (weights && weights.some(w => !isFinite(w) || w < 0)) {
+            throw new Error("Edge weights must be finite and non-negative");
+        }
         this.vertices = points.map(p => new Vertex(p));
         this.edges = [];
+        this.holes = [];
         this.initialize();
+
+        // Edge i runs from point i to point i + 1
+        weights?.forEach((weight, i) => this.edges[i].weight = weight);
     }
 
     initialize(): void {
@@ -24,13 +43,18 @@ export class Polygon {
             this.vertices[i].next = this.vertices[(i + 1) % n];
         }
 
-        // Create edges
+        // Create edges, keeping the weights of the edges they replace
+        const weights = this.edges.length === n ? this.edges.map(e => e.weight) : null;
         this.edges = [];
         for (let i = 0; i < n; i++) {
-            this.edges.push(new Edge(
+            const edge = new Edge(
                 this.vertices[i],
                 this.vertices[(i + 1) % n]
-            ));
+            );
+            if (weights) {
+                edge.weight = weights[i];
+            }
+            this.edges.push(edge);
         }
 
         // Calculate vertex bisectors
@@ -39,46 +63,140 @@ export class Polygon {
             const toPrev = new Vector(
                 vertex.prev!.position.x - vertex.position.x,
                 vertex.prev!.position.y - vertex.position.y
-            ).normalize();
+            );
             
             const toNext = new Vector(
                 vertex.next!.position.x - vertex.position.x,
                 vertex.next!.position.y - vertex.position.y
-            ).normalize();
+            );
+
+            // Wavefront snapshots taken at event time can hold coincident
+            // vertices; those keep their previous bisector
+            if (toPrev.length() === 0 || toNext.length() === 0) {
+                continue;
+            }
 
             // Bisector is sum of normalized vectors
-            vertex.bisector = toPrev.plus(toNext).normalize();
+            const sum = toPrev.normalize().plus(toNext.normalize());
+            if (sum.length() === 0) {
+                continue;
+            }
+            vertex.bisector = sum.normalize();
+        }
+    }
+
+    setGable(edgeIndex: number, gable: boolean = true): void {
+        if (edgeIndex < 0 || edgeIndex >= this.edges.length) {
+            throw new Error(`Edge index ${edgeIndex} out of range (0-${this.edges.length - 1})`);
+        }
+        // A gable works like an edge with zero speed: the neighbouring roof
+        // planes extend up to it. Turning it back into a hip restores the
+        // weight it had before
+        const edge = this.edges[edgeIndex];
+        if (gable && !edge.isGable()) {
+            this.hipWeights.set(edgeIndex, edge.weight);
+            edge.weight = 0;
+        } else if (!gable && edge.isGable()) {
+            edge.weight = this.hipWeights.get(edgeIndex) ?? 1;
+            this.hipWeights.delete(edgeIndex);
         }
     }
 
+    addHole(points: Vector[], weights?: number[]): Polygon {
+        const hole = new Polygon(points, weights);
+        this.holes.push(hole);
+        return hole;
+    }
+
+    getRings(): Polygon[] {
+        // Outer ring first, then the holes
+        return [this, ...this.holes];
+    }
+
     isSimple(): boolean {
-        // Check for intersections between non-adjacent edges
-        for (let i = 0; i < this.edges.length; i++) {
-            for (let j = i + 2; j < this.edges.length; j++) {
-                // Skip adjacent edges
-                if (i === 0 && j === this.edges.length - 1) continue;
-                
-                const edge1 = this.edges[i];
-                const edge2 = this.edges[j];
-
-                // Check if edges intersect
-                const v1 = edge1.v1.position;
-                const v2 = edge1.v2.position;
-                const v3 = edge2.v1.position;
-                const v4 = edge2.v2.position;
-
-                // Using cross products to determine intersection
-                const d1 = sign((v4.x - v3.x) * (v1.y - v3.y) - (v4.y - v3.y) * (v1.x - v3.x));
-                const d2 = sign((v4.x - v3.x) * (v2.y - v3.y) - (v4.y - v3.y) * (v2.x - v3.x));
-                const d3 = sign((v2.x - v1.x) * (v3.y - v1.y) - (v2.y - v1.y) * (v3.x - v1.x));
-                const d4 = sign((v2.x - v1.x) * (v4.y - v1.y) - (v2.y - v1.y) * (v4.x - v1.x));
-
-                if (d1 !== d2 && d3 !== d4) {
-                    return false; // Found an intersection
+        return this.findCrossings(1).length === 0;
+    }
+
+    findCrossings(limit = Infinity): [EdgeRef, EdgeRef][] {
+        // Sweep the edges of all rings from left to right, so that only
+        // pairs whose bounding boxes overlap are tested. Edges of zero length
+        // are left out, and the edges on either side of them count as adjacent
+        const spans = this.getRings().flatMap((ring, r) => {
+            const edges = ring.edges
+                .map((edge, i) => ({ edge, i }))
+                .filter(({ edge }) => edge.length() > 0);
+            return edges.map(({ edge, i }, order) => ({
+                edge, ring: r, index: i, order, count: edges.length,
+                minX: Math.min(edge.v1.position.x, edge.v2.position.x),
+                maxX: Math.max(edge.v1.position.x, edge.v2.position.x),
+                minY: Math.min(edge.v1.position.y, edge.v2.position.y),
+                maxY: Math.max(edge.v1.position.y, edge.v2.position.y)
+            }));
+        });
+        spans.sort((a, b) => a.minX - b.minX);
+
+        const crossings: [EdgeRef, EdgeRef][] = [];
+        for (let i = 0; i < spans.length && crossings.length < limit; i++) {
+            const a = spans[i];
+            for (let j = i + 1; j < spans.length && spans[j].minX <= a.maxX; j++) {
+                const b = spans[j];
+                if (b.minY > a.maxY || b.maxY < a.minY) {
+                    continue;
+                }
+
+                // Skip adjacent edges of the same ring
+                const gap = Math.abs(a.order - b.order);
+                if (a.ring === b.ring && (gap === 1 || gap === a.count - 1)) {
+                    continue;
+                }
+
+                if (edgesIntersect(a.edge, b.edge)) {
+                    crossings.push([{ ring: a.ring, edge: a.index }, { ring: b.ring, edge: b.index }]);
+                    if (crossings.length >= limit) {
+                        break;
+                    }
                 }
             }
         }
-        return true;
+        return crossings;
+    }
+
+    intersects(other: Polygon): boolean {
+        // Polygons overlap when any of their rings cross, or when one lies
+        // inside the other; a polygon inside a hole of the other does not
+        const crossing = this.getRings().some(ring1 =>
+            other.getRings().some(ring2 => ringsIntersect(ring1, ring2)));
+
+        return crossing ||
+            this.containsPoint(other.vertices[0].position) ||
+            other.containsPoint(this.vertices[0].position);
+    }
+
+    hasValidOrientation(): boolean {
+        // The interior lies to the left of every edge: the outer ring runs
+        // counterclockwise and the holes clockwise
+        return !this.isClockwise() && this.holes.every(hole => hole.isClockwise());
+    }
+
+    hasHolesInside(): boolean {
+        return this.findMisplacedHoles().length === 0;
+    }
+
+    findMisplacedHoles(): number[] {
+        // Indices into holes of those outside the outer ring or inside another
+        // hole. Rings do not cross once the polygon is simple, so testing a
+        // single vertex per hole is enough
+        return this.holes.flatMap((hole, i) => {
+            const point = hole.vertices[0].position;
+            const placed = ringContains(this.vertices, point) &&
+                this.holes.every((other, j) => i === j || !ringContains(other.vertices, point));
+            return placed ? [] : [i];
+        });
+    }
+
+    containsPoint(point: Vector): boolean {
+        // Even-odd rule over all rings: inside the outer ring, outside the holes
+        return this.getRings().filter(ring => ringContains(ring.vertices, point)).length % 2 === 1;
     }
 
     isClockwise(): boolean {
@@ -101,7 +219,9 @@ export class Polygon {
     clone(): Polygon {
         // Create new polygon with cloned points
         const clonedPoints = this.vertices.map(v => v.position.clone());
-        const newPolygon = new Polygon(clonedPoints);
+        const newPolygon = new Polygon(clonedPoints, this.edges.map(e => e.weight));
+        newPolygon.holes = this.holes.map(hole => hole.clone());
+        newPolygon.hipWeights = new Map(this.hipWeights);
         
         // The initialize() call in constructor will handle:
         // - Linking vertices
@@ -112,7 +232,33 @@ export class Polygon {
     }
 }
 
-// Helper function for isSimple()
-function sign(num: number): number {
-    return num < 0 ? -1 : num > 0 ? 1 : 0;
-}
\ No newline at end of file
+// Helper functions for findCrossings() and intersects()
+function edgesIntersect(edge1: Edge, edge2: Edge): boolean {
+    return Predicates.segmentsIntersect(
+        edge1.v1.position, edge1.v2.position,
+        edge2.v1.position, edge2.v2.position
+    );
+}
+
+function ringsIntersect(ring1: Polygon, ring2: Polygon): boolean {
+    return ring1.edges.some(edge1 => ring2.edges.some(edge2 => edgesIntersect(edge1, edge2)));
+}
+
+// Ray casting test against a single ring: count the edges crossing the
+// horizontal ray to the right of the point
+function ringContains(vertices: Vertex[], point: Vector): boolean {
+    let inside = false;
+    for (let i = 0, j = vertices.length - 1; i < vertices.length; j = i++) {
+        const vi = vertices[i].position;
+        const vj = vertices[j].position;
+        if ((vi.y > point.y) !== (vj.y > point.y)) {
+            // The crossing lies right of the point when the point is on the
+            // inner side of the edge, taken upwards
+            const side = Predicates.orient2d(vj, vi, point);
+            if (vi.y > vj.y ? side > 0 : side < 0) {
+                inside = !inside;
+            }
+        }
+    }
+    return inside;
+}
@@ -0,0 +1,156 @@
+import { Polygon } from "./Polygon";
+import { Predicates } from "./Predicates";
+import { Vector } from "./Vector";
+
+export type CollinearPolicy = "remove" | "keep";
+
+export interface NormalizeOptions {
+    // Points closer than this are merged. Defaults to the rounding slack of
+    // the footprint, so only points that are equal up to rounding merge
+    tolerance?: number;
+    // What to do with vertices that lie on the line through their neighbours
+    collinear?: CollinearPolicy;
+}
+
+// Rings are numbered as in Polygon.getRings(): 0 is the outer ring, the
+// holes follow. Indices refer to the points of the ring as given
+export type NormalizationChange =
+    | { kind: "merged"; ring: number; index: number; into: number }
+    | { kind: "removed-collinear"; ring: number; index: number }
+    | { kind: "reversed"; ring: number };
+
+export interface NormalizationResult {
+    polygon: Polygon;
+    changes: NormalizationChange[];
+}
+
+// A point of a ring with the weight of the edge leaving it
+interface Corner {
+    point: Vector;
+    weight: number;
+    index: number;
+}
+
+// Brings a polygon into the form the skeleton expects: no repeated points,
+// the outer ring counterclockwise and the holes clockwise. The input polygon
+// is left untouched; every change made to the copy is reported
+export class PolygonNormalizer {
+    static normalize(polygon: Polygon, options: NormalizeOptions = {}): NormalizationResult {
+        const rings = polygon.getRings();
+        const tolerance = options.tolerance ??
+            Predicates.tolerance(...rings.flatMap(ring => ring.vertices.map(v => v.position)));
+        if (!(tolerance >= 0)) {
+            throw new Error(`Normalization tolerance must be non-negative, got ${tolerance}`);
+        }
+
+        const changes: NormalizationChange[] = [];
+        const [outer, ...holes] = rings.map((ring, r) => {
+            let corners: Corner[] = ring.vertices.map((vertex, i) => ({
+                point: vertex.position,
+                weight: ring.edges[i].weight,
+                index: i
+            }));
+
+            corners = PolygonNormalizer.mergeDuplicates(corners, tolerance, r, changes);
+            if (options.collinear === "remove") {
+                corners = PolygonNormalizer.removeCollinear(corners, tolerance, r, changes);
+            }
+            if (corners.length < 3) {
+                throw new Error(`Ring ${r} has fewer than 3 distinct points`);
+            }
+
+            const area = PolygonNormalizer.signedArea(corners);
+            if (area === 0) {
+                throw new Error(`Ring ${r} encloses no area`);
+            }
+            // The outer ring runs counterclockwise, the holes clockwise
+            if ((r === 0) !== (area > 0)) {
+                corners = PolygonNormalizer.reverse(corners);
+                changes.push({ kind: "reversed", ring: r });
+            }
+            return corners;
+        });
+
+        const result = new Polygon(outer.map(c => c.point.clone()), outer.map(c => c.weight));
+        holes.forEach(hole => result.addHole(hole.map(c => c.point.clone()), hole.map(c => c.weight)));
+        return { polygon: result, changes };
+    }
+
+    private static mergeDuplicates(corners: Corner[], tolerance: number, ring: number,
+                                   changes: NormalizationChange[]): Corner[] {
+        // Each point merges into the last point kept before it. The edge
+        // between them has no length, so its weight is dropped
+        const kept: Corner[] = [];
+        for (const corner of corners) {
+            const last = kept[kept.length - 1];
+            if (last && corner.point.minus(last.point).length() <= tolerance) {
+                last.weight = corner.weight;
+                changes.push({ kind: "merged", ring, index: corner.index, into: last.index });
+            } else {
+                kept.push({ ...corner });
+            }
+        }
+
+        // A ring given closed repeats its first point at the end
+        while (kept.length > 1 && kept[kept.length - 1].point.minus(kept[0].point).length() <= tolerance) {
+            const last = kept.pop()!;
+            changes.push({ kind: "merged", ring, index: last.index, into: kept[0].index });
+        }
+        return kept;
+    }
+
+    private static removeCollinear(corners: Corner[], tolerance: number, ring: number,
+                                   changes: NormalizationChange[]): Corner[] {
+        // A vertex is dropped when it lies between its neighbours, on the line
+        // through them, and both its edges move at the same speed. A vertex
+        // between edges of different weights starts a roof valley or hip and
+        // is kept. Removing one vertex can make its neighbour removable
+        // under a tolerance, so repeat until nothing changes
+        const kept = [...corners];
+        let removed = true;
+        while (removed && kept.length > 3) {
+            removed = false;
+            for (let i = 0; i < kept.length && kept.length > 3; i++) {
+                const prev = kept[(i - 1 + kept.length) % kept.length];
+                const corner = kept[i];
+                const next = kept[(i + 1) % kept.length];
+                if (prev.weight === corner.weight &&
+                    PolygonNormalizer.isBetween(prev.point, corner.point, next.point, tolerance)) {
+                    kept.splice(i, 1);
+                    changes.push({ kind: "removed-collinear", ring, index: corner.index });
+                    removed = true;
+                    i--;
+                }
+            }
+        }
+        return kept;
+    }
+
+    private static isBetween(a: Vector, p: Vector, b: Vector, tolerance: number): boolean {
+        // Distance of p from the line ab, with p lying between a and b: a
+        // turn back along the line is a spike, not a straight
+        const chord = b.minus(a);
+        const distance = Math.abs(Predicates.orient2d(a, p, b)) / chord.length();
+        return distance <= tolerance && p.minus(a).dot(b.minus(p)) > 0;
+    }
+
+    private static reverse(corners: Corner[]): Corner[] {
+        // Reversed, every point leaves along the edge that used to arrive at it
+        const n = corners.length;
+        return corners.map((_, k) => ({
+            ...corners[n - 1 - k],
+            weight: corners[(2 * n - 2 - k) % n].weight
+        }));
+    }
+
+    private static signedArea(corners: Corner[]): number {
+        // Shoelace formula, positive for counterclockwise rings
+        let area = 0;
+        for (let i = 0; i < corners.length; i++) {
+            const a = corners[i].point;
+            const b = corners[(i + 1) % corners.length].point;
+            area += a.x * b.y - b.x * a.y;
+        }
+        return area / 2;
+    }
+}
@@ -0,0 +1,117 @@
+import { EdgeRef, Polygon } from "./Polygon";
+import { Predicates } from "./Predicates";
+import { Vector } from "./Vector";
+
+// Every issue names its ring as in Polygon.getRings(), where 0 is the outer
+// ring, and a point to show it at
+interface Located {
+    ring: number;
+    point: Vector;
+    message: string;
+}
+
+export type ValidationIssue =
+    | Located & { kind: "zero-length-edge"; edge: number }
+    | Located & { kind: "spike"; vertex: number }
+    | Located & { kind: "self-intersection"; edge: number; other: EdgeRef }
+    | Located & { kind: "orientation" }
+    | Located & { kind: "misplaced-hole" };
+
+// Collects everything that keeps a polygon from being a valid skeleton input,
+// with the place where it happens, instead of stopping at the first problem
+export class PolygonValidator {
+    static validate(polygon: Polygon): ValidationIssue[] {
+        const rings = polygon.getRings();
+        const issues: ValidationIssue[] = rings.flatMap((ring, r) => PolygonValidator.findDegenerateCorners(ring, r));
+
+        const crossings = polygon.findCrossings();
+        for (const [a, b] of crossings) {
+            const point = PolygonValidator.crossingPoint(
+                rings[a.ring].edges[a.edge].v1.position, rings[a.ring].edges[a.edge].v2.position,
+                rings[b.ring].edges[b.edge].v1.position, rings[b.ring].edges[b.edge].v2.position);
+            issues.push({
+                kind: "self-intersection", ring: a.ring, edge: a.edge, other: b, point,
+                message: `contains self-intersections: edge ${a.edge} of the ${PolygonValidator.ringName(a.ring)} ` +
+                    `meets edge ${b.edge} of the ${PolygonValidator.ringName(b.ring)} at ${PolygonValidator.format(point)}`
+            });
+        }
+
+        // The interior lies to the left of every edge
+        rings.forEach((ring, r) => {
+            if (ring.isClockwise() === (r === 0) || ring.area() === 0) {
+                issues.push({
+                    kind: "orientation", ring: r, point: ring.vertices[0].position,
+                    message: `wrong orientation: the ${PolygonValidator.ringName(r)} must run ` +
+                        (r === 0 ? "counterclockwise" : "clockwise")
+                });
+            }
+        });
+
+        // Containment is only meaningful for rings that do not cross
+        if (crossings.length === 0) {
+            for (const i of polygon.findMisplacedHoles()) {
+                issues.push({
+                    kind: "misplaced-hole", ring: i + 1, point: polygon.holes[i].vertices[0].position,
+                    message: `the ${PolygonValidator.ringName(i + 1)} must lie inside the outer ring and outside the other holes`
+                });
+            }
+        }
+        return issues;
+    }
+
+    private static findDegenerateCorners(ring: Polygon, r: number): ValidationIssue[] {
+        const issues: ValidationIssue[] = [];
+        ring.edges.forEach((edge, i) => {
+            if (edge.length() === 0) {
+                issues.push({
+                    kind: "zero-length-edge", ring: r, edge: i, point: edge.v1.position,
+                    message: `edge ${i} of the ${PolygonValidator.ringName(r)} has zero length ` +
+                        `at ${PolygonValidator.format(edge.v1.position)}`
+                });
+            }
+        });
+
+        // A spike turns back along the edge it came in on, so the wavefront
+        // would have to move the vertex infinitely fast
+        ring.vertices.forEach((vertex, i) => {
+            const prev = vertex.prev!.position;
+            const next = vertex.next!.position;
+            const incoming = vertex.position.minus(prev);
+            const outgoing = next.minus(vertex.position);
+            if (incoming.length() > 0 && outgoing.length() > 0 &&
+                Predicates.orient2d(prev, vertex.position, next) === 0 && incoming.dot(outgoing) < 0) {
+                issues.push({
+                    kind: "spike", ring: r, vertex: i, point: vertex.position,
+                    message: `vertex ${i} of the ${PolygonValidator.ringName(r)} forms a spike ` +
+                        `at ${PolygonValidator.format(vertex.position)}`
+                });
+            }
+        });
+        return issues;
+    }
+
+    // A point shared by the segments ab and cd, which are known to meet
+    private static crossingPoint(a: Vector, b: Vector, c: Vector, d: Vector): Vector {
+        const o1 = Predicates.orient2d(a, b, c);
+        const o2 = Predicates.orient2d(a, b, d);
+        if (o1 !== 0 && o2 !== 0 && Math.sign(o1) !== Math.sign(o2)) {
+            // c and d lie on either side of the line ab: interpolate between
+            // them by their distances from it
+            return c.plus(d.minus(c).scale(o1 / (o1 - o2)));
+        }
+
+        // The segments touch or overlap, so one of the endpoints lies on the
+        // other segment
+        const onSegment = (p: Vector, from: Vector, to: Vector) =>
+            Predicates.orient2d(from, to, p) === 0 && p.minus(from).dot(p.minus(to)) <= 0;
+        return [c, d].find(p => onSegment(p, a, b)) ?? [a, b].find(p => onSegment(p, c, d)) ?? c;
+    }
+
+    private static ringName(ring: number): string {
+        return ring === 0 ? "outer ring" : `hole ${ring}`;
+    }
+
+    private static format(point: Vector): string {
+        return `(${+point.x.toFixed(6)}, ${+point.y.toFixed(6)})`;
+    }
+}
@@ -0,0 +1,149 @@
+import { Vector } from "./Vector";
+
+// Geometric predicates with exact signs. Each test first evaluates in
+// floating point and checks the result against a forward error bound
+// (after Shewchuk, "Adaptive Precision Floating-Point Arithmetic and Fast
+// Robust Geometric Predicates"); only the rare undecided cases are
+// recomputed exactly with integer arithmetic.
+export class Predicates {
+    static readonly EPSILON = 2 ** -53;
+
+    // Relative rounding error allowed for values derived from coordinates,
+    // such as positions of moving vertices
+    static readonly ROUNDOFF = 2 ** -30;
+
+    private static readonly ORIENT_BOUND = (3 + 16 * Predicates.EPSILON) * Predicates.EPSILON;
+    private static readonly INCIRCLE_BOUND = (10 + 96 * Predicates.EPSILON) * Predicates.EPSILON;
+
+    // Positive when a, b, c turn counterclockwise, negative when clockwise,
+    // zero when collinear. The magnitude approximates twice the triangle area
+    static orient2d(a: Vector, b: Vector, c: Vector): number {
+        const detLeft = (a.x - c.x) * (b.y - c.y);
+        const detRight = (a.y - c.y) * (b.x - c.x);
+        const det = detLeft - detRight;
+
+        // Terms of opposite sign cannot cancel
+        let detSum: number;
+        if (detLeft > 0) {
+            if (detRight <= 0) {
+                return det;
+            }
+            detSum = detLeft + detRight;
+        } else if (detLeft < 0) {
+            if (detRight >= 0) {
+                return det;
+            }
+            detSum = -detLeft - detRight;
+        } else {
+            return det;
+        }
+
+        if (Math.abs(det) >= Predicates.ORIENT_BOUND * detSum) {
+            return det;
+        }
+
+        const [ax, ay, bx, by, cx, cy] = Predicates.toIntegers([a.x, a.y, b.x, b.y, c.x, c.y]);
+        const exact = (ax - cx) * (by - cy) - (ay - cy) * (bx - cx);
+        return Predicates.withSign(exact, det);
+    }
+
+    // Positive when d lies inside the circle through a, b, c (taken
+    // counterclockwise), negative outside, zero on it
+    static incircle(a: Vector, b: Vector, c: Vector, d: Vector): number {
+        const adx = a.x - d.x, ady = a.y - d.y;
+        const bdx = b.x - d.x, bdy = b.y - d.y;
+        const cdx = c.x - d.x, cdy = c.y - d.y;
+
+        const bdxcdy = bdx * cdy, cdxbdy = cdx * bdy;
+        const cdxady = cdx * ady, adxcdy = adx * cdy;
+        const adxbdy = adx * bdy, bdxady = bdx * ady;
+        const alift = adx * adx + ady * ady;
+        const blift = bdx * bdx + bdy * bdy;
+        const clift = cdx * cdx + cdy * cdy;
+
+        const det = alift * (bdxcdy - cdxbdy) + blift * (cdxady - adxcdy) + clift * (adxbdy - bdxady);
+        const permanent = (Math.abs(bdxcdy) + Math.abs(cdxbdy)) * alift +
+            (Math.abs(cdxady) + Math.abs(adxcdy)) * blift +
+            (Math.abs(adxbdy) + Math.abs(bdxady)) * clift;
+
+        if (Math.abs(det) > Predicates.INCIRCLE_BOUND * permanent) {
+            return det;
+        }
+
+        const [ax, ay, bx, by, cx, cy, dx, dy] =
+            Predicates.toIntegers([a.x, a.y, b.x, b.y, c.x, c.y, d.x, d.y]);
+        const [eax, eay, ebx, eby, ecx, ecy] = [ax - dx, ay - dy, bx - dx, by - dy, cx - dx, cy - dy];
+        const exact = (eax * eax + eay * eay) * (ebx * ecy - ecx * eby) +
+            (ebx * ebx + eby * eby) * (ecx * eay - eax * ecy) +
+            (ecx * ecx + ecy * ecy) * (eax * eby - ebx * eay);
+        return Predicates.withSign(exact, det);
+    }
+
+    // Whether the closed segments ab and cd share a point, touching and
+    // collinear overlap included
+    static segmentsIntersect(a: Vector, b: Vector, c: Vector, d: Vector): boolean {
+        const o1 = Math.sign(Predicates.orient2d(a, b, c));
+        const o2 = Math.sign(Predicates.orient2d(a, b, d));
+        const o3 = Math.sign(Predicates.orient2d(c, d, a));
+        const o4 = Math.sign(Predicates.orient2d(c, d, b));
+
+        if (o1 * o2 < 0 && o3 * o4 < 0) {
+            return true;
+        }
+
+        return (o1 === 0 && Predicates.withinBox(c, a, b)) ||
+            (o2 === 0 && Predicates.withinBox(d, a, b)) ||
+            (o3 === 0 && Predicates.withinBox(a, c, d)) ||
+            (o4 === 0 && Predicates.withinBox(b, c, d));
+    }
+
+    // Slack for comparisons between values computed from these points,
+    // proportional to their magnitude so that scaling or moving a footprint
+    // does not change the outcome
+    static tolerance(...points: Vector[]): number {
+        const magnitude = Math.max(...points.map(p => Math.max(Math.abs(p.x), Math.abs(p.y))));
+        return Predicates.ROUNDOFF * magnitude;
+    }
+
+    private static withinBox(p: Vector, a: Vector, b: Vector): boolean {
+        return Math.min(a.x, b.x) <= p.x && p.x <= Math.max(a.x, b.x) &&
+            Math.min(a.y, b.y) <= p.y && p.y <= Math.max(a.y, b.y);
+    }
+
+    private static withSign(exact: bigint, estimate: number): number {
+        // Keep the floating-point magnitude, which is tiny here anyway
+        if (exact === 0n) {
+            return 0;
+        }
+        const magnitude = Math.abs(estimate) > 0 ? Math.abs(estimate) : Number.MIN_VALUE;
+        return exact > 0n ? magnitude : -magnitude;
+    }
+
+    private static toIntegers(values: number[]): bigint[] {
+        // Every double is an integer times a power of two; scaling all of
+        // them to the smallest power makes the arithmetic exact
+        const parts = values.map(value => Predicates.decompose(value));
+        const exponents = parts.filter(([mantissa]) => mantissa !== 0n).map(([, exponent]) => exponent);
+        const lowest = exponents.length > 0 ? Math.min(...exponents) : 0;
+        return parts.map(([mantissa, exponent]) => mantissa << BigInt(exponent - lowest));
+    }
+
+    private static decompose(value: number): [bigint, number] {
+        if (!isFinite(value)) {
+            throw new Error(`Cannot evaluate a predicate on ${value}`);
+        }
+        if (value === 0) {
+            return [0n, 0];
+        }
+
+        // Dividing by a power of two is exact; log2 may be off by one, so
+        // step down until the mantissa is whole
+        let exponent = Math.max(Math.floor(Math.log2(Math.abs(value))) - 52, -1074);
+        let mantissa = value / 2 ** exponent;
+        while (!Number.isInteger(mantissa)) {
+            exponent--;
+            mantissa = value / 2 ** exponent;
+        }
+        return [BigInt(mantissa), exponent];
+    }
+}
@@ -1,39 +1,146 @@
 import { Event } from "./Event";
 import { EdgeEvent } from "./EdgeEvent";
 import { SplitEvent } from "./SplitEvent";
+import { VertexEvent } from "./VertexEvent";
 import { EventQueue } from "./EventQueue";
 import { Polygon } from "./Polygon";
 import { Vector } from "./Vector";
 import { Vertex } from "./Vertex";
 import { Edge } from "./Edge";
-import { Angle } from "./Angle";
+import { Wavefront } from "./Wavefront";
+import { Face } from "./Face";
+import { SpatialGrid } from "./SpatialGrid";
+import { Heap } from "./Heap";
+import { PolygonValidator } from "./PolygonValidator";
+import { Logger, LogLevel, LogRecord, RingBuffer, formatRecord, isLevelEnabled } from "./Logger";
+import { NormalizationChange, NormalizeOptions, PolygonNormalizer } from "./PolygonNormalizer";
+
+export interface SkeletonOptions {
+    // Store the wavefront after every event for display. Costs time and
+    // memory proportional to the footprint size per event
+    snapshots?: boolean;
+    // Clean up the input before validating it: merge repeated points, fix
+    // the ring orientations and optionally drop collinear vertices
+    normalize?: boolean | NormalizeOptions;
+    // Receives the records at or above logLevel. Nothing is logged by default
+    logger?: Logger;
+    logLevel?: LogLevel;
+    // Number of most recent records kept for getDebugLog()
+    debugLogSize?: number;
+    // Stop once the wavefront reaches this time, leaving a partial skeleton
+    // and the wavefront of that moment in getFront()
+    until?: number;
+}
+
+// An event as a debugger shows it: its kind, when and where it happens, and
+// the wavefront vertices and edges it involves, placed as they are then
+export interface EventInfo {
+    kind: "edge" | "split" | "vertex";
+    time: number;
+    point: Vector;
+    vertices: { id: number; position: Vector }[];
+    edges: { id: number; start: Vector; end: Vector }[];
+    skipped?: string;   // Why it was not processed, when it was taken but found stale
+}
+
+// What one step of the construction did with the events it took
+export interface EventStep {
+    time: number;
+    events: EventInfo[];            // Taken together, happening at the same time and place
+    processed: EventInfo | null;    // The one applied, combining the valid ones if several; null if all were stale
+    created: number[];              // Ids of the vertices it put on the wavefront
+    error?: string;
+}
+
+// Records of a log message that do not fit in its text
+type LogContext = Pick<LogRecord, "event" | "time" | "vertices" | "edges">;
+
+// When the reach of a reflex vertex runs out
+interface Expiry {
+    time: number;
+    vertex: Vertex;
+}
+
+const SILENT: Logger = { log: () => {} };
 
 export class Skeleton {
-    private readonly BISECTOR_VELOCITY = 1;
     private readonly NUMERICAL_TOLERANCE = 1e-10;
     private eventQueue: EventQueue;
-    private wavefrontPolygons: Polygon[] = [];
+    private wavefront: Wavefront;
     private angleBisectorEdges: Edge[] = [];
-    private skeletonEdges: Edge[] = [];
-    private debugLog: string[] = [];
-
-    private constructor(polygon: Polygon) {
-        this.log("Starting skeleton construction");
+    private faces: Face[] | null = null;
+    private debugLog: RingBuffer<LogRecord>;
+    private normalization: NormalizationChange[] = [];
+    private readonly bounds: [Vector, Vector];  // Bounding box of the footprint, which the wavefront never leaves
+
+    // Split events are only sought between edges and reflex vertices whose
+    // paths can cross. Each vertex has a reach: the time up to which every
+    // event that may end it is queued. Edges are indexed by the area they
+    // sweep until one of their endpoints reaches its end, reflex vertices
+    // by the path they travel until then. The edge index also finds the
+    // edges that pass through the node of a vertex event.
+    // A moving reflex vertex looks ahead a few cells at a time, so that a
+    // long path does not bring in edges it only meets after other events
+    // have changed them. When its reach runs out before its end, it expires
+    // and the vertex looks further
+    private edgeIndex: SpatialGrid<Edge>;
+    private reflexIndex: SpatialGrid<Vertex>;
+    private collapseTimes = new Map<Edge, number>();
+    private reaches = new Map<Vertex, number>();
+    private sweepEnds = new Map<Edge, number>();
+    private expiries = new Heap<Expiry>((a, b) => a.time < b.time);
+    private readonly LOOKAHEAD = 8;     // Cells a reflex vertex looks ahead
+
+    // Input edges each reflex vertex has a split queued against. A vertex
+    // meets a supporting line once, so one event per line is enough: when
+    // it is taken, it looks up the part of the line that is hit
+    private pendingSplits = new Map<Vertex, Set<Edge>>();
+    private splitsPossible = true;  // Convex footprints stay convex and never split
+    private complete = false;
+    private readonly options: Required<SkeletonOptions>;
+
+    private constructor(polygon: Polygon, options: SkeletonOptions) {
+        this.options = {
+            snapshots: true, normalize: false, until: Infinity,
+            logger: SILENT, logLevel: "info", debugLogSize: 1000,
+            ...options
+        };
+        this.debugLog = new RingBuffer(this.options.debugLogSize);
+        this.log("info", "Starting skeleton construction");
         
         if (!polygon) {
             throw new Error("Input polygon cannot be null or undefined");
         }
 
-        this.log(`Input polygon has ${polygon.vertices.length} vertices`);
+        this.log("info", `Input polygon has ${polygon.vertices.length} vertices and ${polygon.holes.length} holes`);
+        if (this.options.normalize) {
+            const normalized = PolygonNormalizer.normalize(
+                polygon, this.options.normalize === true ? {} : this.options.normalize);
+            polygon = normalized.polygon;
+            this.normalization = normalized.changes;
+            this.log("info", `Normalization made ${this.normalization.length} changes`);
+        }
         this.validateInputPolygon(polygon);
         
         this.eventQueue = new EventQueue();
-        this.wavefrontPolygons.push(polygon.clone());
+        this.wavefront = new Wavefront(polygon);
+
+        // Index edges and reflex vertices over the footprint, with a margin
+        // for vertices that rounding puts just outside
+        const corners = this.wavefront.getSourceEdges().map(edge => edge.v1.position);
+        const margin = this.wavefront.getTolerance();
+        this.bounds = [
+            new Vector(Math.min(...corners.map(p => p.x)) - margin, Math.min(...corners.map(p => p.y)) - margin),
+            new Vector(Math.max(...corners.map(p => p.x)) + margin, Math.max(...corners.map(p => p.y)) + margin)
+        ];
+        const [min, max] = this.bounds;
+        this.edgeIndex = new SpatialGrid(min, max, corners.length, this.wavefront.getTolerance());
+        this.reflexIndex = new SpatialGrid(min, max, corners.length, this.wavefront.getTolerance());
         
         try {
-            this.initialize(polygon);
+            this.initialize();
         } catch (error) {
-            this.log("ERROR during initialization: " + error);
+            this.log("error", "Initialization failed: " + error);
             throw error;
         }
     }
@@ -43,80 +150,109 @@ export class Skeleton {
             throw new Error(`Invalid polygon: only ${polygon.vertices.length} vertices (minimum 3 required)`);
         }
 
-        if (!polygon.isSimple()) {
-            throw new Error("Invalid polygon: contains self-intersections");
+        const issues = PolygonValidator.validate(polygon);
+        if (issues.length > 0) {
+            const more = issues.length > 1 ? ` (${issues.length - 1} more issues)` : "";
+            throw new Error(`Invalid polygon: ${issues[0].message}${more}`);
         }
 
         // Validate vertex connectivity
-        for (const vertex of polygon.vertices) {
+        for (const vertex of polygon.getRings().flatMap(ring => ring.vertices)) {
             if (!vertex.prev || !vertex.next) {
                 throw new Error("Invalid polygon: vertices not properly linked");
             }
         }
 
         // Validate edge connectivity
-        for (const edge of polygon.edges) {
+        for (const edge of polygon.getRings().flatMap(ring => ring.edges)) {
             if (!edge.v1 || !edge.v2) {
                 throw new Error("Invalid polygon: edges not properly defined");
             }
         }
 
-        this.log("Input polygon validation successful");
+        this.log("debug", "Input polygon validation successful");
     }
 
-    private log(message: string): void {
-        const timestamp = new Date().toISOString();
-        const logMessage = `[${timestamp}] ${message}`;
-        this.debugLog.push(logMessage);
-        console.log(logMessage);
+    private log(level: LogLevel, message: string, context: LogContext = {}): void {
+        if (!isLevelEnabled(level, this.options.logLevel)) {
+            return;
+        }
+        const record: LogRecord = { level, message, timestamp: new Date().toISOString(), ...context };
+        this.debugLog.push(record);
+        this.options.logger.log(record);
     }
 
-    static build(polygon: Polygon): Skeleton {
-        return new Skeleton(polygon);
+    private describe(event: Event): LogContext {
+        // The event type, its time and the wavefront elements it involves
+        const parts = event instanceof VertexEvent ? event.events : [event];
+        return {
+            event: event.constructor.name,
+            time: event.time,
+            vertices: parts.flatMap(part => part instanceof SplitEvent ? [part.vertex.id] : []),
+            edges: parts.flatMap(part =>
+                part instanceof EdgeEvent || part instanceof SplitEvent ? [part.edge.id] : [])
+        };
     }
 
-    private initialize(polygon: Polygon): void {
-        this.log("Starting initialization phase");
+    static build(polygon: Polygon, options: SkeletonOptions = {}): Skeleton {
+        const skeleton = new Skeleton(polygon, options);
+        skeleton.processEvents();
+        return skeleton;
+    }
+
+    static start(polygon: Polygon, options: SkeletonOptions = {}): Skeleton {
+        // With the events queued but none processed, to step through them
+        return new Skeleton(polygon, options);
+    }
+
+    private initialize(): void {
+        this.log("debug", "Starting initialization phase");
         
+        // Events must reference the wavefront's own vertices and edges,
+        // which move while the input polygon stays untouched
+        const vertices = this.wavefront.getVertices();
+        const edges = this.wavefront.getEdges();
+
         // Calculate and store initial bisectors
-        this.log("Computing initial angle bisectors");
+        this.log("debug", "Computing initial angle bisectors");
         try {
-            this.computeInitialBisectors(polygon);
+            this.computeInitialBisectors(vertices);
         } catch (error) {
-            this.log("ERROR during bisector computation: " + error);
+            this.log("error", "Bisector computation failed: " + error);
             throw new Error(`Failed to compute initial bisectors: ${error}`);
         }
 
         // Handle edge events
-        this.log("Computing edge events");
+        this.log("debug", "Computing edge events");
         try {
-            this.computeInitialEdgeEvents(polygon);
+            this.computeInitialEdgeEvents(edges);
         } catch (error) {
-            this.log("ERROR during edge event computation: " + error);
+            this.log("error", "Edge event computation failed: " + error);
             throw new Error(`Failed to compute edge events: ${error}`);
         }
 
         // Handle split events
-        this.log("Computing split events");
+        this.log("debug", "Computing split events");
         try {
-            this.computeInitialSplitEvents(polygon);
+            this.computeInitialSplitEvents(vertices, edges);
         } catch (error) {
-            this.log("ERROR during split event computation: " + error);
+            this.log("error", "Split event computation failed: " + error);
             throw new Error(`Failed to compute split events: ${error}`);
         }
     }
 
-    private computeInitialBisectors(polygon: Polygon): void {
-        for (const vertex of polygon.vertices) {
-            this.log(`Computing bisector for vertex at (${vertex.position.x}, ${vertex.position.y})`);
+    private computeInitialBisectors(vertices: Vertex[]): void {
+        for (const vertex of vertices) {
+            this.log("trace", `Computing bisector for vertex at (${vertex.position.x}, ${vertex.position.y})`);
             
             if (!vertex.prev || !vertex.next) {
                 throw new Error(`Invalid vertex links at (${vertex.position.x}, ${vertex.position.y})`);
             }
 
             try {
-                const bisector = this.calculateBisector(vertex);
-                this.log(`Computed bisector direction: (${bisector.x}, ${bisector.y})`);
+                this.computeVertexMotion(vertex);
+                const bisector = vertex.bisector;
+                this.log("trace", `Computed bisector direction: (${bisector.x}, ${bisector.y})`);
 
                 // Validate bisector is unit length
                 const length = bisector.length();
@@ -134,43 +270,88 @@ export class Skeleton {
                 );
                 
                 this.angleBisectorEdges.push(bisectorEdge);
-                this.log(`Stored bisector edge from (${vertex.position.x}, ${vertex.position.y}) to (${bisectorEnd.x}, ${bisectorEnd.y})`);
+                this.log("trace", `Stored bisector edge from (${vertex.position.x}, ${vertex.position.y}) to (${bisectorEnd.x}, ${bisectorEnd.y})`);
 
             } catch (error) {
                 throw new Error(`Failed to compute bisector at (${vertex.position.x}, ${vertex.position.y}): ${error}`);
             }
         }
         
-        this.log(`Successfully computed ${this.angleBisectorEdges.length} bisectors`);
+        this.log("debug", `Successfully computed ${this.angleBisectorEdges.length} bisectors`);
+    }
+
+    private computeVertexMotion(vertex: Vertex): void {
+        vertex.velocity = this.calculateVelocity(vertex);
+        vertex.bisector = this.calculateBisector(vertex);
+        this.log("trace", `Computed velocity: (${vertex.velocity.x}, ${vertex.velocity.y})`);
+    }
+
+    private calculateVelocity(vertex: Vertex): Vector {
+        if (!vertex.prevEdge || !vertex.nextEdge) {
+            throw new Error("Vertex missing prev/next edge references");
+        }
+
+        // The vertex stays on both supporting lines, each moving inward at
+        // the weight of its edge: velocity . normal = weight for both edges
+        const normalIn = vertex.prevEdge.normal();
+        const normalOut = vertex.nextEdge.normal();
+        const weightIn = vertex.prevEdge.weight;
+        const weightOut = vertex.nextEdge.weight;
+
+        this.log("trace", `Edge weights: ${weightIn} (incoming), ${weightOut} (outgoing)`);
+
+        const determinant = normalIn.cross(normalOut);
+        if (Math.abs(determinant) < this.NUMERICAL_TOLERANCE) {
+            if (normalIn.dot(normalOut) > 0) {
+                // Collinear edges: keep moving straight inward
+                return normalIn.scale((weightIn + weightOut) / 2);
+            }
+            // Opposite edges meeting head-on: the vertex only closes a
+            // zero-area sliver that the pending events remove
+            return new Vector(0, 0);
+        }
+
+        return new Vector(
+            (weightIn * normalOut.y - weightOut * normalIn.y) / determinant,
+            (weightOut * normalIn.x - weightIn * normalOut.x) / determinant
+        );
     }
 
     private calculateBisector(vertex: Vertex): Vector {
-        this.log(`Calculating bisector for vertex at (${vertex.position.x}, ${vertex.position.y})`);
+        this.log("trace", `Calculating bisector for vertex at (${vertex.position.x}, ${vertex.position.y})`);
         
-        if (!vertex.prev || !vertex.next) {
-            throw new Error("Vertex missing prev/next references");
+        if (!vertex.prevEdge || !vertex.nextEdge) {
+            throw new Error("Vertex missing prev/next edge references");
+        }
+
+        // With weighted edges the vertex no longer follows the angle
+        // bisector: its direction of motion is the weighted bisector
+        const velocity = this.calculateVelocity(vertex);
+        if (velocity.length() > this.NUMERICAL_TOLERANCE) {
+            const bisector = velocity.normalize();
+            this.log("trace", `Computed weighted bisector: (${bisector.x}, ${bisector.y})`);
+            return bisector;
         }
     
-        // Following the successful test pattern exactly:
-        // Vector TO current point (matches test's vectorFrom)
-        const vectorFrom = new Vector(
-            vertex.prev.position.x - vertex.position.x,
-            vertex.prev.position.y - vertex.position.y
-        );
-    
-        // Vector FROM current point (matches test's vectorTo)
-        const vectorTo = new Vector(
-            vertex.next.position.x - vertex.position.x,
-            vertex.next.position.y - vertex.position.y
-        );
+        // A vertex that does not move still gets a direction for display.
+        // Wavefront vertices can sit on top of their neighbours, so work
+        // from the inward normals of the adjacent edges instead of positions:
+        // their sum points along the interior bisector at convex and reflex
+        // vertices alike
+        const normalIn = vertex.prevEdge.normal();
+        const normalOut = vertex.nextEdge.normal();
     
-        this.log(`Vector FROM prev->current: (${vectorFrom.x}, ${vectorFrom.y})`);
-        this.log(`Vector TO next: (${vectorTo.x}, ${vectorTo.y})`);
+        this.log("trace", `Incoming edge normal: (${normalIn.x}, ${normalIn.y})`);
+        this.log("trace", `Outgoing edge normal: (${normalOut.x}, ${normalOut.y})`);
+
+        if (normalIn.plus(normalOut).length() < this.NUMERICAL_TOLERANCE) {
+            // Antiparallel edges: head along the outgoing edge
+            return vertex.nextEdge.supportDirection();
+        }
     
         try {
-            // Compute bisector using same method as test
-            const bisector = Vector.bisector(vectorFrom, vectorTo);
-            this.log(`Computed bisector: (${bisector.x}, ${bisector.y})`);
+            const bisector = Vector.bisector(normalIn, normalOut);
+            this.log("trace", `Computed bisector: (${bisector.x}, ${bisector.y})`);
     
             return bisector;
         } catch (error) {
@@ -178,103 +359,69 @@ export class Skeleton {
         }
     }
 
-    // private calculateBisector(vertex: Vertex): Vector {
-    //     this.log(`Calculating bisector for vertex at (${vertex.position.x}, ${vertex.position.y})`);
-        
-    //     if (!vertex.prev || !vertex.next) {
-    //         throw new Error("Vertex missing prev/next references");
-    //     }
-
-    //     // Get vectors pointing AWAY from vertex
-    //     const prevVector = vertex.position.minus(vertex.prev.position);
-    //     const nextVector = vertex.next.position.minus(vertex.position);
-
-    //     this.log(`Previous edge vector: (${prevVector.x}, ${prevVector.y})`);
-    //     this.log(`Next edge vector: (${nextVector.x}, ${nextVector.y})`);
-
-    //     // Normalize vectors
-    //     try {
-    //         const normalizedPrev = prevVector.normalize();
-    //         const normalizedNext = nextVector.normalize();
-            
-    //         this.log(`Normalized prev vector: (${normalizedPrev.x}, ${normalizedPrev.y})`);
-    //         this.log(`Normalized next vector: (${normalizedNext.x}, ${normalizedNext.y})`);
-
-    //         // Compute bisector
-    //         const bisector = normalizedPrev.plus(normalizedNext).normalize();
-    //         this.log(`Computed bisector: (${bisector.x}, ${bisector.y})`);
-
-    //         return bisector;
-
-    //     } catch (error) {
-    //         throw new Error(`Normalization failed: ${error}`);
-    //     }
-    // }
-
-    private computeInitialEdgeEvents(polygon: Polygon): void {
-        this.log("Starting edge event computation");
+    private computeInitialEdgeEvents(edges: Edge[]): void {
+        this.log("debug", "Starting edge event computation");
         
-        for (const edge of polygon.edges) {
-            this.log(`Analyzing edge from (${edge.v1.position.x}, ${edge.v1.position.y}) to (${edge.v2.position.x}, ${edge.v2.position.y})`);
+        for (const edge of edges) {
+            this.log("trace", `Analyzing edge from (${edge.v1.position.x}, ${edge.v1.position.y}) to (${edge.v2.position.x}, ${edge.v2.position.y})`);
 
             try {
-                if (edge.hasReflexEndpoint()) {
-                    this.log("Edge has reflex endpoint - skipping");
-                    continue;
-                }
-
-                const time = this.calculateEdgeCollapseTime(edge);
-                this.log(`Calculated collapse time: ${time}`);
-
-                if (time <= 0) {
-                    this.log("Invalid collapse time (<=0) - skipping");
-                    continue;
-                }
-
-                if (!isFinite(time)) {
-                    this.log("Invalid collapse time (not finite) - skipping");
-                    continue;
-                }
-
-                this.eventQueue.add(new EdgeEvent(time, edge));
-                this.log(`Added edge event at time ${time}`);
-
+                this.scheduleEdgeEvent(edge);
             } catch (error) {
-                this.log(`ERROR processing edge: ${error}`);
+                this.log("error", `Failed to process edge: ${error}`, { edges: [edge.id] });
                 throw new Error(`Failed to process edge event: ${error}`);
             }
         }
 
-        this.log(`Edge event computation complete. Queue size: ${this.eventQueue.size()}`);
+        this.log("debug", `Edge event computation complete. Queue size: ${this.eventQueue.size()}`);
+    }
+
+    private scheduleEdgeEvent(edge: Edge): void {
+        const time = this.calculateEdgeCollapseTime(edge);
+        this.log("trace", `Calculated collapse time: ${time}`);
+        this.collapseTimes.set(edge, time);
+
+        if (!isFinite(time)) {
+            this.log("trace", "Edge does not collapse - skipping");
+            return;
+        }
+
+        this.eventQueue.add(new EdgeEvent(time, edge));
+        this.log("trace", "Added edge event", { event: "EdgeEvent", time, edges: [edge.id] });
     }
 
     private calculateEdgeCollapseTime(edge: Edge): number {
-        this.log(`Calculating collapse time for edge from (${edge.v1.position.x}, ${edge.v1.position.y}) to (${edge.v2.position.x}, ${edge.v2.position.y})`);
+        this.log("trace", `Calculating collapse time for edge from (${edge.v1.position.x}, ${edge.v1.position.y}) to (${edge.v2.position.x}, ${edge.v2.position.y})`);
+
+        const now = this.wavefront.getTime();
 
         try {
-            const edgeVector = edge.direction();
-            this.log(`Edge direction vector: (${edgeVector.x}, ${edgeVector.y})`);
+            // A sliver tip collapses its shorter edge straight away
+            for (const tip of [edge.v1, edge.v2]) {
+                if (tip.isSliverTip() && edge.lengthAt(now) <= Math.min(tip.prevEdge!.lengthAt(now), tip.nextEdge!.lengthAt(now))) {
+                    this.log("trace", "Edge closes a zero-width sliver");
+                    return now;
+                }
+            }
 
-            const theta1 = Angle.between(edgeVector, edge.v1.bisector);
-            const theta2 = Angle.between(edgeVector, edge.v2.bisector);
+            const edgeVector = edge.supportDirection();
+            this.log("trace", `Edge direction vector: (${edgeVector.x}, ${edgeVector.y})`);
 
-            this.log(`Angle at v1: ${theta1.toDegrees().toFixed(2)} degrees`);
-            this.log(`Angle at v2: ${theta2.toDegrees().toFixed(2)} degrees`);
+            // Both endpoints stay on the moving supporting line, so the edge
+            // shrinks at the difference of their speeds along it; the weights
+            // of the neighbouring edges enter through the vertex velocities
+            const velocity = edge.v1.velocity.minus(edge.v2.velocity).dot(edgeVector);
+            const length = edge.v2.positionAt(now).minus(edge.v1.positionAt(now)).dot(edgeVector);
 
-            const sin1 = theta1.sin();
-            const sin2 = theta2.sin();
+            this.log("trace", `Edge length: ${length}`);
+            this.log("trace", `Computed velocity: ${velocity}`);
 
-            if (Math.abs(sin1) < this.NUMERICAL_TOLERANCE || Math.abs(sin2) < this.NUMERICAL_TOLERANCE) {
-                throw new Error("Angle sine too close to zero");
+            if (velocity <= this.NUMERICAL_TOLERANCE) {
+                return Infinity;
             }
 
-            const velocity = (1 / sin1) + (1 / sin2);
-            const length = edge.length();
-            const time = length / velocity;
-
-            this.log(`Edge length: ${length}`);
-            this.log(`Computed velocity: ${velocity}`);
-            this.log(`Computed collapse time: ${time}`);
+            const time = now + Math.max(length, 0) / velocity;
+            this.log("trace", `Computed collapse time: ${time}`);
 
             return time;
 
@@ -283,223 +430,457 @@ export class Skeleton {
         }
     }
 
-    private computeInitialSplitEvents(polygon: Polygon): void {
-        this.log("Starting split event computation");
-        
-        for (const vertex of polygon.vertices) {
-            if (!vertex.isReflex()) {
-                continue;
+    private computeInitialSplitEvents(vertices: Vertex[], edges: Edge[]): void {
+        this.log("debug", "Starting split event computation");
+
+        // Until the vertices have a reach, edges sweep until they collapse
+        this.splitsPossible = vertices.some(vertex => vertex.isReflex());
+        edges.forEach(edge => this.sweepEdge(edge));
+        if (!this.splitsPossible) {
+            this.log("debug", "Footprint is convex - no split events");
+            return;
+        }
+
+        for (const vertex of vertices) {
+            if (vertex.isReflex()) {
+                this.log("trace", `Processing reflex vertex at (${vertex.position.x}, ${vertex.position.y})`);
             }
+            this.extendReach(vertex);
+        }
 
-            this.log(`Processing reflex vertex at (${vertex.position.x}, ${vertex.position.y})`);
-            const bisector = this.calculateBisector(vertex);
-            
-            for (const edge of polygon.edges) {
-                if (this.isNearbyEdge(edge, vertex)) {
+        this.log("debug", `Split event computation complete. Queue size: ${this.eventQueue.size()}`);
+    }
+
+    private extendReach(vertex: Vertex): boolean {
+        // The vertex lasts at most until one of its edges collapses or it
+        // leaves the footprint. A reflex vertex may also split an edge
+        // before: queue the first split up to then, which becomes its reach
+        const reach = this.reaches.get(vertex) ?? -Infinity;
+        const lifetime = this.lifetime(vertex);
+        if (lifetime <= reach + this.wavefront.getTolerance()) {
+            return false;
+        }
+
+        const until = Math.min(lifetime, this.lookahead(vertex));
+        const split = vertex.isReflex() ? this.scheduleSplitEvents(vertex, reach, until) : Infinity;
+        this.reaches.set(vertex, Math.min(until, split));
+        if (vertex.isReflex()) {
+            this.reflexIndex.insert(vertex, this.trajectory(vertex));
+        }
+        if (until < Math.min(lifetime, split)) {
+            this.expiries.push({ time: until, vertex });
+        }
+        return true;
+    }
+
+    private scheduleSplitEvents(vertex: Vertex, after: number, until: number): number {
+        // Queues the first split of the vertex between the two times and
+        // returns its time. Only edges whose swept area the vertex passes
+        // through can be hit, and only before they end. The path is searched
+        // in stretches that double in length, as far as the first split
+        const tolerance = this.wavefront.getTolerance();
+        const speed = vertex.velocity.length();
+        const candidates: SplitEvent[] = [];
+        const seen = new Set<Edge>();
+        let first = Infinity;
+        let from = Math.max(after, this.wavefront.getTime());
+        for (let length = this.edgeIndex.cellSize; from < until && first > from + tolerance; length *= 2) {
+            const to = speed > 0 ? Math.min(until, from + length / speed) : until;
+            for (const edge of this.edgeIndex.query([vertex.positionAt(from), vertex.positionAt(to)])) {
+                if (seen.has(edge)) {
+                    continue;
+                }
+                seen.add(edge);
+                if (!this.wavefront.isLive(edge)) {
+                    this.edgeIndex.remove(edge);
                     continue;
                 }
 
-                try {
-                    const intersection = this.calculateIntersection(vertex, bisector, edge);
-                    if (!intersection) {
-                        continue;
-                    }
+                const event = this.findSplitEvent(vertex, edge, after, Math.min(until, this.sweepEnds.get(edge)!));
+                if (event) {
+                    candidates.push(event);
+                    first = Math.min(first, event.time);
+                }
+            }
+            from = to;
+        }
 
-                    const distance = this.distance(vertex.position, intersection);
-                    const time = distance / this.BISECTOR_VELOCITY;
+        candidates
+            .filter(event => event.time <= first + tolerance)
+            .forEach(event => this.queueSplit(event));
+        return first;
+    }
+
+    private sweepEdge(edge: Edge): void {
+        // Index the edge up to the reach of its endpoints, and queue its
+        // splits by reflex vertices that get there within their own reach
+        const tolerance = this.wavefront.getTolerance();
+        const previous = this.sweepEnds.get(edge) ?? -Infinity;
+        const end = Math.min(this.reachOf(edge.v1), this.reachOf(edge.v2));
+        if (end <= previous + tolerance) {
+            return;
+        }
 
-                    if (time <= 0 || !isFinite(time)) {
-                        continue;
-                    }
+        const sweep = [edge.v1, edge.v2].flatMap(vertex => this.trajectory(vertex, end));
+        this.sweepEnds.set(edge, end);
+        this.edgeIndex.insert(edge, sweep);
+        if (!this.splitsPossible) {
+            return;
+        }
 
-                    this.eventQueue.add(new SplitEvent(time, vertex, edge, intersection));
-                    this.log(`Added split event at time ${time} for intersection (${intersection.x}, ${intersection.y})`);
+        for (const vertex of this.reflexIndex.query(sweep)) {
+            if (vertex.processed) {
+                this.reflexIndex.remove(vertex);
+                continue;
+            }
+            if (this.pendingSplits.get(vertex)?.has(edge.source)) {
+                continue;
+            }
 
-                } catch (error) {
-                    this.log(`WARNING: Failed to process potential split event: ${error}`);
-                    // Continue processing other edges
-                }
+            const event = this.findSplitEvent(vertex, edge, previous, Math.min(end, this.reachOf(vertex)));
+            if (event) {
+                this.queueSplit(event);
             }
         }
-
-        this.log(`Split event computation complete. Queue size: ${this.eventQueue.size()}`);
     }
 
-    private isNearbyEdge(edge: Edge, vertex: Vertex): boolean {
-        return edge.isAdjacent(vertex);
+    private queueSplit(event: SplitEvent): void {
+        const sources = this.pendingSplits.get(event.vertex) ?? new Set<Edge>();
+        if (!sources.has(event.edge.source)) {
+            this.pendingSplits.set(event.vertex, sources.add(event.edge.source));
+            this.eventQueue.add(event);
+        }
     }
 
-    private calculateIntersection(vertex: Vertex, bisector: Vector, edge: Edge): Vector | null {
-        const p1 = edge.v1.position;
-        const p2 = edge.v2.position;
-        const p3 = vertex.position;
-        const p4 = vertex.position.plus(bisector);
+    private edgesNear(point: Vector): Edge[] {
+        // The live edges whose sweep covers the point
+        return this.edgeIndex.query([point]).filter(edge => {
+            if (!this.wavefront.isLive(edge)) {
+                this.edgeIndex.remove(edge);
+                return false;
+            }
+            return true;
+        });
+    }
 
-        const denominator = (p1.x - p2.x) * (p3.y - p4.y) - (p1.y - p2.y) * (p3.x - p4.x);
-        
-        if (Math.abs(denominator) < this.NUMERICAL_TOLERANCE) {
-            return null;
-        }
+    private reachOf(vertex: Vertex): number {
+        return this.reaches.get(vertex) ?? Math.min(this.lifetime(vertex), this.lookahead(vertex));
+    }
 
-        const t = ((p1.x - p3.x) * (p3.y - p4.y) - (p1.y - p3.y) * (p3.x - p4.x)) / denominator;
-        
-        if (t < 0 || t > 1) {
-            return null;
+    private lookahead(vertex: Vertex): number {
+        // How far a reflex vertex looks for edges to split
+        const speed = vertex.velocity.length();
+        if (!this.splitsPossible || !vertex.isReflex() || speed === 0) {
+            return Infinity;
         }
+        return this.wavefront.getTime() + this.LOOKAHEAD * this.edgeIndex.cellSize / speed;
+    }
 
-        return new Vector(
-            p1.x + t * (p2.x - p1.x),
-            p1.y + t * (p2.y - p1.y)
+    private lifetime(vertex: Vertex): number {
+        // When the vertex leaves the wavefront unless it splits an edge or
+        // a neighbour changes before
+        const now = this.wavefront.getTime();
+        const start = vertex.positionAt(now);
+        return Math.min(
+            this.collapseTimes.get(vertex.prevEdge!) ?? Infinity,
+            this.collapseTimes.get(vertex.nextEdge!) ?? Infinity,
+            now + this.exitTime(start, vertex.velocity)
         );
     }
 
-    private distance(p1: Vector, p2: Vector): number {
-        return p1.minus(p2).length();
+    private trajectory(vertex: Vertex, until = this.reachOf(vertex)): Vector[] {
+        // The vertex moves in a straight line
+        const now = this.wavefront.getTime();
+        return [vertex.positionAt(now), vertex.positionAt(Math.max(until, now))];
     }
 
-    private processEvents(): void {
-        this.log("Starting event processing");
-        
-        while (!this.eventQueue.isEmpty()) {
-            const event = this.eventQueue.poll();
-            if (!event) {
-                this.log("WARNING: Null event encountered in queue");
-                continue;
-            }
+    private exitTime(start: Vector, velocity: Vector): number {
+        // How long a point moving at the velocity stays inside the bounds
+        const [min, max] = this.bounds;
+        let time = Infinity;
+        if (velocity.x !== 0) {
+            time = Math.min(time, ((velocity.x > 0 ? max.x : min.x) - start.x) / velocity.x);
+        }
+        if (velocity.y !== 0) {
+            time = Math.min(time, ((velocity.y > 0 ? max.y : min.y) - start.y) / velocity.y);
+        }
+        return isFinite(time) ? Math.max(time, 0) : 0;
+    }
 
-            try {
-                if (event instanceof EdgeEvent) {
-                    this.log(`Processing edge event at time ${event.time}`);
-                    this.handleEdgeEvent(event);
-                } else if (event instanceof SplitEvent) {
-                    this.log(`Processing split event at time ${event.time}`);
-                    this.handleSplitEvent(event);
-                } else {
-                    this.log(`WARNING: Unknown event type encountered: ${event.constructor.name}`);
-                    continue;
-                }
+    private findSplitEvent(vertex: Vertex, edge: Edge, after: number, until: number): SplitEvent | null {
+        // The split of the edge by the vertex, if it comes after the one
+        // time and by the other
+        if (this.isNearbyEdge(edge, vertex)) {
+            return null;
+        }
 
-                // Store polygon state after each event
-                const currentPolygon = this.getCurrentPolygon();
-                if (currentPolygon) {
-                    this.wavefrontPolygons.push(currentPolygon.clone());
-                    this.log(`Stored wavefront polygon with ${currentPolygon.vertices.length} vertices`);
-                }
+        try {
+            const time = this.calculateSplitTime(vertex, edge);
+            const tolerance = this.wavefront.getTolerance();
+            if (!isFinite(time) || time <= after + tolerance || time > until + tolerance) {
+                return null;
+            }
 
-            } catch (error) {
-                this.log(`ERROR processing event at time ${event.time}: ${error}`);
-                // Continue processing other events
+            const intersection = this.calculateIntersection(vertex, edge, time);
+            if (!intersection) {
+                return null;
             }
+
+            const generation = this.wavefront.getGeneration(edge.source);
+            this.log("trace", `Found split event at (${intersection.x}, ${intersection.y})`,
+                { event: "SplitEvent", time, vertices: [vertex.id], edges: [edge.id] });
+            return new SplitEvent(time, vertex, edge, intersection, generation);
+
+        } catch (error) {
+            this.log("warn", `Failed to process potential split event: ${error}`, { vertices: [vertex.id], edges: [edge.id] });
+            // Continue processing other edges
+            return null;
         }
+    }
 
-        this.log("Event processing complete");
+    private isNearbyEdge(edge: Edge, vertex: Vertex): boolean {
+        return edge.isAdjacent(vertex);
     }
 
-    private handleEdgeEvent(event: EdgeEvent): void {
-        if (!this.validateEventState(event)) {
-            return;
+    private calculateSplitTime(vertex: Vertex, edge: Edge): number {
+        // Distance from the vertex to the supporting line of the edge,
+        // measured on the interior side
+        const now = this.wavefront.getTime();
+        const normal = edge.normal();
+        const distance = vertex.positionAt(now).minus(edge.v1.positionAt(now)).dot(normal);
+        if (distance < -this.wavefront.getTolerance()) {
+            return Infinity;
         }
 
-        // Store the collapsed edge as part of the skeleton
-        this.skeletonEdges.push(event.edge.clone());
-        this.log(`Added edge to skeleton: (${event.edge.v1.position.x}, ${event.edge.v1.position.y}) to (${event.edge.v2.position.x}, ${event.edge.v2.position.y})`);
-        
-        // Update polygon state
-        const currentPolygon = this.getCurrentPolygon();
-        if (!currentPolygon) {
-            this.log("WARNING: No current polygon state available");
-            return;
+        // The line moves inward at its weight while the vertex moves
+        // towards it
+        const approach = edge.weight - vertex.velocity.dot(normal);
+        if (approach <= this.NUMERICAL_TOLERANCE) {
+            return Infinity;
         }
 
-        const v1 = event.edge.v1;
-        const v2 = event.edge.v2;
+        return now + Math.max(distance, 0) / approach;
+    }
 
-        // Remove vertices and edge
-        currentPolygon.vertices = currentPolygon.vertices.filter(v => v !== v1 && v !== v2);
-        currentPolygon.edges = currentPolygon.edges.filter(e => e !== event.edge);
-        
-        // Reinitialize the polygon
-        try {
-            currentPolygon.initialize();
-            this.log(`Updated polygon state: ${currentPolygon.vertices.length} vertices remaining`);
-        } catch (error) {
-            throw new Error(`Failed to reinitialize polygon: ${error}`);
+    private calculateIntersection(vertex: Vertex, edge: Edge, time: number): Vector | null {
+        // Where the vertex meets the supporting line, which has to lie
+        // between the endpoints of the edge as they are at that time
+        const point = vertex.positionAt(time);
+        const start = edge.v1.positionAt(time);
+        const end = edge.v2.positionAt(time);
+        const direction = edge.supportDirection();
+
+        const along = point.minus(start).dot(direction);
+        const length = end.minus(start).dot(direction);
+
+        // Computed positions carry rounding errors that grow with the
+        // coordinates, so allow for them relative to the footprint
+        const tolerance = this.wavefront.getTolerance();
+        if (along < -tolerance || along > length + tolerance) {
+            return null;
         }
+
+        return point;
     }
 
-    private handleSplitEvent(event: SplitEvent): void {
-        if (!this.validateEventState(event)) {
-            return;
+    private processEvents(): void {
+        this.log("debug", "Starting event processing");
+        while (this.step()) {
+            // Each step logs what it did
         }
+    }
 
-        // Store the split edge as part of the skeleton
-        const skeletonEdge = new Edge(
-            new Vertex(event.vertex.position),
-            new Vertex(event.intersection)
-        );
-        this.skeletonEdges.push(skeletonEdge);
-        this.log(`Added split edge to skeleton: (${event.vertex.position.x}, ${event.vertex.position.y}) to (${event.intersection.x}, ${event.intersection.y})`);
-        
-        // Update polygon state
-        const currentPolygon = this.getCurrentPolygon();
-        if (!currentPolygon) {
-            this.log("WARNING: No current polygon state available");
-            return;
+    step(): EventStep | null {
+        // Processes the next event, together with those at the same time and
+        // place. Null once the queue is done, which completes the skeleton
+        if (this.complete) {
+            return null;
         }
-
-        // Create new vertex at intersection
-        const newVertex = new Vertex(event.intersection);
-        
-        // Split the edge
-        const edgeIndex = currentPolygon.edges.indexOf(event.edge);
-        const vertexIndex = currentPolygon.vertices.indexOf(event.vertex);
-        
-        if (edgeIndex === -1 || vertexIndex === -1) {
-            throw new Error("Invalid split event: edge or vertex not found in current polygon");
+        this.expireReaches();
+        if (this.eventQueue.isEmpty() || this.eventQueue.peek()!.time > this.options.until) {
+            if (isFinite(this.options.until)) {
+                this.wavefront.propagateToTime(this.options.until);
+            }
+            this.complete = true;
+            this.log("info", "Event processing complete");
+            return null;
         }
 
-        currentPolygon.vertices.splice(vertexIndex + 1, 0, newVertex);
-        currentPolygon.edges.splice(edgeIndex + 1, 0, new Edge(event.vertex, newVertex));
-        
+        const cluster = this.eventQueue.pollCluster(this.wavefront.getTolerance());
+        for (const event of cluster) {
+            if (event instanceof SplitEvent) {
+                this.pendingSplits.get(event.vertex)?.delete(event.edge.source);
+            }
+        }
+        const step: EventStep = { time: cluster[0].time, events: [], processed: null, created: [] };
         try {
-            currentPolygon.initialize();
-            this.log(`Updated polygon state after split: ${currentPolygon.vertices.length} vertices`);
+            // Advance the wavefront to the events
+            this.wavefront.propagateToTime(cluster[0].time);
+
+            const reasons = cluster.map(e => this.validateEventState(e));
+            step.events = cluster.map((e, i) => reasons[i] === null
+                ? this.inspect(e)
+                : { ...this.inspect(e), skipped: reasons[i]! });
+            const valid = cluster.filter((_, i) => reasons[i] === null);
+            if (valid.length === 0) {
+                this.rescheduleEvents([], cluster);
+                return step;
+            }
+
+            // Events that meet at the same node are resolved together,
+            // since handling them one by one leaves degenerate pieces
+            const event = valid.length === 1
+                ? valid[0]
+                : new VertexEvent(valid[0].time, valid[0].getPoint(), valid, this.edgesNear(valid[0].getPoint()));
+
+            if (event instanceof EdgeEvent) {
+                this.log("debug", "Processing edge event", this.describe(event));
+            } else if (event instanceof SplitEvent) {
+                this.log("debug", "Processing split event", this.describe(event));
+            } else if (event instanceof VertexEvent) {
+                this.log("debug", `Processing vertex event combining ${event.events.length} events`, this.describe(event));
+            } else {
+                this.log("warn", `Unknown event type encountered: ${event.constructor.name}`, this.describe(event));
+                return step;
+            }
+            step.processed = this.inspect(event);
+
+            // Apply the event and schedule the events of the vertices
+            // and edges it created
+            const created = event.process(this.wavefront);
+            step.created = created.map(vertex => vertex.id);
+            this.rescheduleEvents(created, cluster);
+
+            // Store polygon state after each event
+            if (this.options.snapshots) {
+                this.wavefront.snapshot();
+                this.log("trace", "Stored wavefront state");
+            }
+
         } catch (error) {
-            throw new Error(`Failed to reinitialize polygon after split: ${error}`);
+            this.log("error", `Failed to process event: ${error}`, this.describe(cluster[0]));
+            step.error = String(error);
+            // Continue processing other events
         }
+        return step;
     }
 
-    private validateEventState(event: EdgeEvent | SplitEvent): boolean {
-        const currentPolygon = this.getCurrentPolygon();
-        if (!currentPolygon) {
-            this.log("ERROR: No current polygon state available");
-            return false;
+    private expireReaches(): void {
+        // Reflex vertices whose reach runs out before the next event look
+        // further, which may queue an earlier split
+        const next = () => Math.min(this.eventQueue.peek()?.time ?? Infinity, this.options.until);
+        for (let expiry = this.expiries.peek(); expiry && expiry.time <= next(); expiry = this.expiries.peek()) {
+            this.expiries.pop();
+            if (expiry.vertex.processed || this.reaches.get(expiry.vertex) !== expiry.time) {
+                continue;
+            }
+            this.wavefront.propagateToTime(expiry.time);
+            if (this.extendReach(expiry.vertex)) {
+                this.sweepEdge(expiry.vertex.prevEdge!);
+                this.sweepEdge(expiry.vertex.nextEdge!);
+            }
         }
+    }
 
-        if (event instanceof EdgeEvent) {
-            if (!currentPolygon.edges.includes(event.edge)) {
-                this.log("ERROR: Edge event references non-existent edge");
-                return false;
-            }
-        } else if (event instanceof SplitEvent) {
-            if (!currentPolygon.vertices.includes(event.vertex) || 
-                !currentPolygon.edges.includes(event.edge)) {
-                this.log("ERROR: Split event references non-existent vertex or edge");
-                return false;
+    isComplete(): boolean {
+        return this.complete;
+    }
+
+    getPendingEvents(limit = Infinity): EventInfo[] {
+        // The first ones in the order they will be taken; stale ones are only
+        // found out then
+        return this.eventQueue.toArray(limit).map(event => this.inspect(event));
+    }
+
+    getPendingCount(): number {
+        return this.eventQueue.size();
+    }
+
+    private inspect(event: Event): EventInfo {
+        const parts = event instanceof VertexEvent ? event.events : [event];
+        const vertices = new Set<Vertex>();
+        const edges = new Set<Edge>();
+        for (const part of parts) {
+            if (part instanceof EdgeEvent) {
+                vertices.add(part.edge.v1).add(part.edge.v2);
+                edges.add(part.edge);
+            } else if (part instanceof SplitEvent) {
+                vertices.add(part.vertex);
+                edges.add(part.edge);
             }
         }
 
-        return true;
+        const at = (vertex: Vertex) => vertex.positionAt(event.time);
+        return {
+            kind: event instanceof EdgeEvent ? "edge" : event instanceof SplitEvent ? "split" : "vertex",
+            time: event.time,
+            point: event.getPoint(),
+            vertices: [...vertices].map(vertex => ({ id: vertex.id, position: at(vertex) })),
+            edges: [...edges].map(edge => ({ id: edge.id, start: at(edge.v1), end: at(edge.v2) }))
+        };
+    }
+
+    private rescheduleEvents(created: Vertex[], events: Event[]): void {
+        for (const vertex of created) {
+            this.computeVertexMotion(vertex);
+        }
+
+        // Every created vertex brings two new edges; the edges shared by
+        // two created vertices must only be scheduled once
+        const edges = new Set<Edge>();
+        for (const vertex of created) {
+            edges.add(vertex.prevEdge!);
+            edges.add(vertex.nextEdge!);
+        }
+
+        for (const edge of edges) {
+            this.scheduleEdgeEvent(edge);
+        }
+
+        // Vertices may now last longer: the created ones, those at the other
+        // end of a new edge, and those the events were expected to remove
+        const touched = new Set<Vertex>(created);
+        edges.forEach(edge => touched.add(edge.v1).add(edge.v2));
+        for (const event of events) {
+            if (event instanceof EdgeEvent) {
+                touched.add(event.edge.v1).add(event.edge.v2);
+            } else if (event instanceof SplitEvent) {
+                touched.add(event.vertex);
+            }
+        }
+        const extended = [...touched].filter(vertex => !vertex.processed && this.extendReach(vertex));
+
+        // New edges may be split by reflex vertices already on the wavefront,
+        // and edges whose endpoints last longer may be split further on
+        edges.forEach(edge => this.sweepEdge(edge));
+        extended.forEach(vertex => {
+            this.sweepEdge(vertex.prevEdge!);
+            this.sweepEdge(vertex.nextEdge!);
+        });
     }
 
-    private getCurrentPolygon(): Polygon | null {
-        return this.wavefrontPolygons.length > 0 ? 
-            this.wavefrontPolygons[this.wavefrontPolygons.length - 1] : null;
+    private validateEventState(event: Event): string | null {
+        // Why the event must be skipped, or null to process it
+        const reason = event.whyInvalid(this.wavefront);
+        if (reason !== null) {
+            this.log("trace", `Skipping event: ${reason}`, this.describe(event));
+        }
+        return reason;
     }
 
     // Public interface methods
     getWavefrontPolygons(): Polygon[] {
-        return this.wavefrontPolygons.map(p => p.clone());
+        return this.wavefront.getPolygons().map(p => p.clone());
+    }
+
+    getFront(): Polygon[] {
+        // The rings still moving when the build stopped, one polygon each:
+        // counterclockwise where they bound the interior from outside,
+        // clockwise around holes. Empty for a complete skeleton
+        const time = this.wavefront.getTime();
+        return this.wavefront.getRings()
+            .filter(ring => ring.length >= 3)
+            .map(ring => new Polygon(ring.map(v => v.positionAt(time)), ring.map(v => v.nextEdge!.weight)));
     }
 
     getAngleBisectors(): Edge[] {
@@ -507,10 +888,32 @@ export class Skeleton {
     }
 
     getSkeletonEdges(): Edge[] {
-        return this.skeletonEdges.map(e => e.clone());
+        return this.wavefront.getSkeletonEdges().map(e => e.clone());
+    }
+
+    getFaces(): Face[] {
+        // One face per input edge, traced once the skeleton is complete
+        if (!this.faces) {
+            this.faces = Face.fromSkeleton(
+                this.wavefront.getSourceEdges(),
+                this.wavefront.getSkeletonEdges()
+            );
+            this.log("info", `Extracted ${this.faces.length} faces`);
+        }
+        return [...this.faces];
+    }
+
+    getNormalizationChanges(): NormalizationChange[] {
+        // Empty unless built with the normalize option
+        return [...this.normalization];
     }
 
     getDebugLog(): string[] {
-        return [...this.debugLog];
+        // The most recent records, oldest first
+        return this.debugLog.toArray().map(formatRecord);
+    }
+
+    getDebugRecords(): LogRecord[] {
+        return this.debugLog.toArray();
     }
-}
\ No newline at end of file
+}
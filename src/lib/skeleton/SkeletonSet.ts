@@ -0,0 +1,65 @@
+import { Edge } from "./Edge";
+import { Polygon } from "./Polygon";
+import { Skeleton, SkeletonOptions } from "./Skeleton";
+
+export class SkeletonSet {
+    private skeletons = new Map<string, Skeleton>();
+
+    private constructor(components: Map<string, Polygon>, options: SkeletonOptions) {
+        if (components.size === 0) {
+            throw new Error("Skeleton set needs at least one component");
+        }
+
+        this.validateComponents(components);
+
+        // Disjoint footprints do not interact, so each one gets its own
+        // wavefront and event queue
+        for (const [id, polygon] of components) {
+            try {
+                this.skeletons.set(id, Skeleton.build(polygon, options));
+            } catch (error) {
+                throw new Error(`Component ${id}: ${error instanceof Error ? error.message : error}`);
+            }
+        }
+    }
+
+    private validateComponents(components: Map<string, Polygon>): void {
+        const entries = [...components.entries()];
+
+        for (let i = 0; i < entries.length; i++) {
+            for (let j = i + 1; j < entries.length; j++) {
+                const [id1, polygon1] = entries[i];
+                const [id2, polygon2] = entries[j];
+                if (polygon1.intersects(polygon2)) {
+                    throw new Error(`Invalid multipolygon: components ${id1} and ${id2} overlap`);
+                }
+            }
+        }
+    }
+
+    static build(components: Polygon[] | Map<string, Polygon>, options: SkeletonOptions = {}): SkeletonSet {
+        // Components given as a list are keyed by their index
+        const keyed = Array.isArray(components)
+            ? new Map(components.map((polygon, i) => [String(i), polygon]))
+            : components;
+
+        return new SkeletonSet(keyed, options);
+    }
+
+    // Public interface methods
+    getIds(): string[] {
+        return [...this.skeletons.keys()];
+    }
+
+    get(id: string): Skeleton | undefined {
+        return this.skeletons.get(id);
+    }
+
+    getSkeletons(): Map<string, Skeleton> {
+        return new Map(this.skeletons);
+    }
+
+    getSkeletonEdges(): Edge[] {
+        return [...this.skeletons.values()].flatMap(s => s.getSkeletonEdges());
+    }
+}
@@ -0,0 +1,135 @@
+import { Vector } from "./Vector";
+
+// Uniform grid over a fixed rectangle. Items are registered with a few
+// points and occupy every cell met by the convex hull of those points, so
+// a query only returns items whose hulls may overlap the queried hull.
+// Points outside the rectangle fall into its border cells.
+export class SpatialGrid<T> {
+    readonly cellSize: number;         // Side length of a cell
+    private readonly columns: number;
+    private readonly rows: number;
+    private cells = new Map<number, Set<T>>();
+    private items = new Map<T, number[]>();
+
+    constructor(
+        private readonly min: Vector,
+        max: Vector,
+        capacity: number,               // Expected number of items, about one per cell
+        private readonly padding = 0    // Margin around every hull, for rounding errors
+    ) {
+        const width = max.x - min.x;
+        const height = max.y - min.y;
+        if (!(width > 0 && height > 0)) {
+            throw new Error("Spatial grid needs a rectangle with positive width and height");
+        }
+
+        this.cellSize = Math.sqrt((width * height) / Math.max(capacity, 1));
+        this.columns = Math.max(1, Math.ceil(width / this.cellSize));
+        this.rows = Math.max(1, Math.ceil(height / this.cellSize));
+    }
+
+    insert(item: T, points: Vector[]): void {
+        this.remove(item);
+
+        const cells = this.cover(points);
+        for (const cell of cells) {
+            let members = this.cells.get(cell);
+            if (!members) {
+                members = new Set();
+                this.cells.set(cell, members);
+            }
+            members.add(item);
+        }
+        this.items.set(item, cells);
+    }
+
+    remove(item: T): void {
+        for (const cell of this.items.get(item) ?? []) {
+            const members = this.cells.get(cell)!;
+            members.delete(item);
+            if (members.size === 0) {
+                this.cells.delete(cell);
+            }
+        }
+        this.items.delete(item);
+    }
+
+    query(points: Vector[]): T[] {
+        const found = new Set<T>();
+        for (const cell of this.cover(points)) {
+            this.cells.get(cell)?.forEach(item => found.add(item));
+        }
+        return [...found];
+    }
+
+    size(): number {
+        return this.items.size;
+    }
+
+    private cover(points: Vector[]): number[] {
+        if (points.length === 0) {
+            return [];
+        }
+
+        // The hull meets a row of cells wherever one of the segments between
+        // its points does, and reaches as far left and right as they do
+        const ys = points.map(p => p.y);
+        const first = this.row(Math.min(...ys) - this.padding);
+        const last = this.row(Math.max(...ys) + this.padding);
+
+        const cells: number[] = [];
+        for (let row = first; row <= last; row++) {
+            const low = row === 0 ? -Infinity : this.min.y + row * this.cellSize - this.padding;
+            const high = row === this.rows - 1 ? Infinity : this.min.y + (row + 1) * this.cellSize + this.padding;
+
+            let left = Infinity;
+            let right = -Infinity;
+            for (let i = 0; i < points.length; i++) {
+                for (let j = i; j < points.length; j++) {
+                    const span = SpatialGrid.clip(points[i], points[j], low, high);
+                    if (span) {
+                        left = Math.min(left, span[0]);
+                        right = Math.max(right, span[1]);
+                    }
+                }
+            }
+
+            if (left > right) {
+                continue;
+            }
+            const from = this.column(left - this.padding);
+            const to = this.column(right + this.padding);
+            for (let column = from; column <= to; column++) {
+                cells.push(row * this.columns + column);
+            }
+        }
+        return cells;
+    }
+
+    private row(y: number): number {
+        return Math.min(this.rows - 1, Math.max(0, Math.floor((y - this.min.y) / this.cellSize)));
+    }
+
+    private column(x: number): number {
+        return Math.min(this.columns - 1, Math.max(0, Math.floor((x - this.min.x) / this.cellSize)));
+    }
+
+    // Horizontal extent of the segment ab between the heights low and high
+    private static clip(a: Vector, b: Vector, low: number, high: number): [number, number] | null {
+        if (a.y === b.y) {
+            return a.y >= low && a.y <= high ? [Math.min(a.x, b.x), Math.max(a.x, b.x)] : null;
+        }
+
+        const t1 = (low - a.y) / (b.y - a.y);
+        const t2 = (high - a.y) / (b.y - a.y);
+        const start = Math.max(0, Math.min(t1, t2));
+        const end = Math.min(1, Math.max(t1, t2));
+        if (start > end) {
+            return null;
+        }
+
+        const x1 = a.x + (b.x - a.x) * start;
+        const x2 = a.x + (b.x - a.x) * end;
+        return [Math.min(x1, x2), Math.max(x1, x2)];
+    }
+}
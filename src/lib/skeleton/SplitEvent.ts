@@ -1,5 +1,4 @@
 import { Edge } from "./Edge";
-import { Polygon } from "./Polygon";
 import { Vector } from "./Vector";
 import { Vertex } from "./Vertex";
 import { Wavefront } from "./Wavefront";
@@ -10,10 +9,11 @@ export class SplitEvent extends Event {
         time: number,
         public vertex: Vertex,
         public edge: Edge,
-        public intersection: Vector
+        public intersection: Vector,
+        private generation: number = 0   // Generation of the edge's supporting line when scheduled
     ) {
         super(time);
-        
+
         if (!vertex || !edge || !intersection) {
             throw new Error("SplitEvent requires valid vertex, edge, and intersection point");
         }
@@ -26,70 +26,72 @@ export class SplitEvent extends Event {
             throw new Error("Split edge cannot be adjacent to splitting vertex");
         }
     }
-    
-    override process(wavefront: Wavefront): void {
+
+    override process(wavefront: Wavefront): Vertex[] {
         // Validate event is still valid
         if (!this.isStillValid(wavefront)) {
-            return; // Skip processing if event is no longer valid
+            return []; // Skip processing if event is no longer valid
         }
-        
+
         // Process the split
-        wavefront.handleSplitEvent(this);
+        this.retarget(wavefront);
+        return wavefront.handleSplitEvent(this);
     }
 
-    private isStillValid(wavefront: Wavefront): boolean {
-        const currentPolygon = wavefront.getCurrentPolygon();
-        
-        // Check if vertex and edge still exist in current polygon
-        if (!currentPolygon.vertices.includes(this.vertex) ||
-            !currentPolygon.edges.includes(this.edge)) {
-            return false;
+    override whyInvalid(wavefront: Wavefront): string | null {
+        // Check if vertex still exists in the wavefront
+        if (this.vertex.processed) {
+            return `Vertex ${this.vertex.id} has already left the wavefront`;
         }
 
         // Verify vertex is still reflex
         if (!this.vertex.isReflex()) {
-            return false;
+            return `Vertex ${this.vertex.id} is no longer reflex`;
         }
 
-        // Verify edge is still not adjacent to vertex
-        if (this.edge.isAdjacent(this.vertex)) {
-            return false;
+        // Verify vertex still reaches the predicted intersection point
+        const position = this.vertex.positionAt(this.time);
+        const distance = this.intersection.minus(position).length();
+        if (distance > wavefront.getTolerance()) {
+            return `Vertex ${this.vertex.id} now misses the split point by ${distance}`;
         }
 
-        // Verify bisector still intersects edge at approximately same point
-        const newIntersection = this.calculateCurrentIntersection(currentPolygon);
-        if (!newIntersection) {
-            return false;
+        // Unless earlier events divided or shortened the edge, it is still
+        // the one that is hit
+        if (wavefront.getGeneration(this.edge.source) === this.generation) {
+            return this.edge.isAdjacent(this.vertex)
+                ? `Edge ${this.edge.id} now ends at vertex ${this.vertex.id}`
+                : null;
         }
 
-        // Check if intersection point has significantly moved
-        const distance = this.intersection.minus(newIntersection).length();
-        return distance < 1e-10; // Numerical tolerance
+        // Otherwise some part of its supporting line has to be hit now
+        return this.findCurrentEdge(wavefront)
+            ? null
+            : `No part of edge ${this.edge.id} lies at the split point any more`;
     }
 
-    private calculateCurrentIntersection(polygon: Polygon): Vector | null {
-        // Get line equations for current state
-        const p1 = this.edge.v1.position;
-        const p2 = this.edge.v2.position;
-        const p3 = this.vertex.position;
-        const p4 = p3.plus(this.vertex.bisector);
-        
-        // Calculate intersection using line-line intersection formula
-        const denominator = (p1.x - p2.x) * (p3.y - p4.y) - (p1.y - p2.y) * (p3.x - p4.x);
-        
-        if (Math.abs(denominator) < 1e-10) {
-            return null; // Lines are parallel
+    retarget(wavefront: Wavefront): void {
+        // Moves a valid event on to the part of the edge's supporting line
+        // that is hit now, in case earlier events divided or shortened it
+        const generation = wavefront.getGeneration(this.edge.source);
+        if (generation !== this.generation) {
+            this.edge = this.findCurrentEdge(wavefront)!;
+            this.generation = generation;
         }
-        
-        const t = ((p1.x - p3.x) * (p3.y - p4.y) - (p1.y - p3.y) * (p3.x - p4.x)) / denominator;
-        
-        if (t < 0 || t > 1) {
-            return null; // Intersection outside edge segment
-        }
-        
-        return new Vector(
-            p1.x + t * (p2.x - p1.x),
-            p1.y + t * (p2.y - p1.y)
-        );
     }
-}
\ No newline at end of file
+
+    override get priority(): number {
+        return 1;
+    }
+
+    override getPoint(): Vector {
+        return this.intersection;
+    }
+
+    private findCurrentEdge(wavefront: Wavefront): Edge | null {
+        // The edge may lie on the ring of the vertex or, while holes are
+        // still open, on any other ring
+        const edges = wavefront.getEdgesAt(this.edge.source, this.intersection, this.time);
+        return edges.find(edge => !edge.isAdjacent(this.vertex)) ?? null;
+    }
+}
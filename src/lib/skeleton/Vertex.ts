@@ -1,37 +1,67 @@
 import { Angle } from "./Angle";
+import { Edge } from "./Edge";
+import { Predicates } from "./Predicates";
 import { Vector } from "./Vector";
 
 export class Vertex {
+    private static count = 0;
+
+    readonly id: number;        // Unique among all vertices, to name them in logs
     position: Vector;
     prev: Vertex | null;
     next: Vertex | null;
     bisector: Vector;
+    velocity: Vector;           // Displacement per unit of wavefront time
+    origin: Vector;             // Position at the moment the vertex was created
+    time: number;               // Wavefront time at which the vertex was created
+    prevEdge: Edge | null;      // Wavefront edge from prev to this vertex
+    nextEdge: Edge | null;      // Wavefront edge from this vertex to next
+    processed: boolean;         // Set once the vertex has left the wavefront
 
-    constructor(position: Vector) {
+    constructor(position: Vector, time: number = 0) {
+        this.id = Vertex.count++;
         this.position = position;
         this.prev = null;
         this.next = null;
         this.bisector = new Vector(0, 0); // Will be calculated when prev/next are set
+        this.velocity = new Vector(0, 0);
+        this.origin = position;
+        this.time = time;
+        this.prevEdge = null;
+        this.nextEdge = null;
+        this.processed = false;
+    }
+
+    positionAt(time: number): Vector {
+        // Vertices move linearly between events
+        return this.origin.plus(this.velocity.scale(time - this.time));
     }
 
     isReflex(): boolean {
+        // Wavefront vertices can coincide with their neighbours at event time,
+        // so prefer the directions of the supporting edges when they are known
+        if (this.prevEdge && this.nextEdge) {
+            const incoming = this.prevEdge.supportDirection();
+            const outgoing = this.nextEdge.supportDirection();
+            return incoming.cross(outgoing) < 0;
+        }
+
         if (!this.prev || !this.next) {
             throw new Error("Vertex is not properly linked");
         }
 
-        // Get vectors pointing from this vertex to prev and next
-        const toPrev = new Vector(
-            this.prev.position.x - this.position.x,
-            this.prev.position.y - this.position.y
-        );
-
-        const toNext = new Vector(
-            this.next.position.x - this.position.x,
-            this.next.position.y - this.position.y
-        );
+        // A clockwise turn means the interior angle is > 180 degrees (reflex)
+        return Predicates.orient2d(this.prev.position, this.position, this.next.position) < 0;
+    }
 
-        // Cross product positive means angle is > 180 degrees (reflex)
-        return toPrev.cross(toNext) < 0;
+    isSliverTip(): boolean {
+        // Adjacent edges pointing in opposite directions on the same line
+        // enclose a zero-width sliver; the vertex sits at its tip
+        if (!this.prevEdge || !this.nextEdge) {
+            return false;
+        }
+        const sum = this.prevEdge.supportDirection().plus(this.nextEdge.supportDirection());
+        return sum.length() < 1e-10;
     }
 
     getAngle(): Angle {
@@ -54,9 +84,11 @@ export class Vertex {
     }
 
     clone(): Vertex {
-        const vertex = new Vertex(this.position.clone());
+        const vertex = new Vertex(this.position.clone(), this.time);
         vertex.bisector = this.bisector.clone();
+        vertex.velocity = this.velocity.clone();
+        vertex.origin = this.origin.clone();
         // Note: prev and next references need to be set after cloning
         return vertex;
     }
-}
\ No newline at end of file
+}
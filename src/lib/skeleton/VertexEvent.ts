@@ -0,0 +1,70 @@
+import { Edge } from "./Edge";
+import { EdgeEvent } from "./EdgeEvent";
+import { Event } from "./Event";
+import { SplitEvent } from "./SplitEvent";
+import { Vector } from "./Vector";
+import { Vertex } from "./Vertex";
+import { Wavefront } from "./Wavefront";
+
+export class VertexEvent extends Event {
+    constructor(
+        time: number,
+        public point: Vector,
+        public events: Event[],     // Coinciding edge and split events resolved together
+        public nearby: Edge[] = []  // Wavefront edges that may pass through the point, from a spatial search
+    ) {
+        super(time);
+
+        if (!point || events.length === 0) {
+            throw new Error("VertexEvent requires a point and at least one event");
+        }
+    }
+
+    override process(wavefront: Wavefront): Vertex[] {
+        if (!this.isStillValid(wavefront)) {
+            return [];
+        }
+
+        // Split events at the node hit the parts of their edges there now
+        this.events
+            .filter((event): event is SplitEvent => event instanceof SplitEvent && event.isStillValid(wavefront))
+            .forEach(event => event.retarget(wavefront));
+        return wavefront.handleVertexEvent(this);
+    }
+
+    override whyInvalid(wavefront: Wavefront): string | null {
+        // Some of the coinciding events may be stale; the node still forms
+        // as long as one of them is not
+        if (this.events.some(event => event.isStillValid(wavefront))) {
+            return null;
+        }
+        return `None of its ${this.events.length} coinciding events is still valid`;
+    }
+
+    override get priority(): number {
+        return 2;
+    }
+
+    override getPoint(): Vector {
+        return this.point;
+    }
+
+    getVertices(): Vertex[] {
+        // The wavefront vertices the coinciding events bring to the node
+        return this.events.flatMap(event => {
+            if (event instanceof EdgeEvent) {
+                return [event.edge.v1, event.edge.v2];
+            }
+            if (event instanceof SplitEvent) {
+                return [event.vertex];
+            }
+            return [];
+        });
+    }
+
+    getSplitEdges(): Edge[] {
+        return this.events
+            .filter((event): event is SplitEvent => event instanceof SplitEvent)
+            .map(event => event.edge);
+    }
+}
@@ -1,154 +1,509 @@
 import { Edge } from "./Edge";
 import { EdgeEvent } from "./EdgeEvent";
 import { Polygon } from "./Polygon";
+import { Predicates } from "./Predicates";
 import { SplitEvent } from "./SplitEvent";
+import { Vector } from "./Vector";
 import { Vertex } from "./Vertex";
+import { VertexEvent } from "./VertexEvent";
 
 export class Wavefront {
     private polygons: Polygon[];  // History of polygon states
     private times: number[];      // Corresponding times for each state
-    
+    private active: Set<Vertex>;  // Vertices currently on the wavefront
+    private sources: Edge[];      // Input edges, kept at their original position
+    private arcs: Edge[] = [];    // Skeleton edges traced by vertices that left the wavefront
+    private tolerance: number;    // Distance below which computed points coincide
+    private time = 0;
+
+    // Live wavefront edges per input edge, in order along its supporting
+    // line, and how often that set changed. Parts of one line never pass
+    // each other, so the order they are added in holds while they move.
+    // A split event only has to look for the part of its edge that is hit
+    // when the generation of the edge's supporting line moved on
+    private live = new Set<Edge>();
+    private edgesBySource = new Map<Edge, Edge[]>();
+    private generations = new Map<Edge, number>();
+
     constructor(original: Polygon) {
         if (!original.isSimple()) {
             throw new Error("Initial polygon must be simple (no self-intersections)");
         }
-        
+
         this.polygons = [original.clone()];
         this.times = [0];  // Initial state at time 0
+
+        // The first snapshot never moves, so its edges can serve as the
+        // supporting lines of every wavefront edge derived from them. Holes
+        // propagate like the outer ring: their edges move into the polygon
+        this.sources = this.polygons[0].getRings().flatMap(ring => ring.edges);
+        this.tolerance = Predicates.tolerance(...this.sources.map(edge => edge.v1.position));
+
+        const live = original.clone().getRings();
+        live.flatMap(ring => ring.edges).forEach((edge, i) => {
+            edge.source = this.sources[i];
+            edge.v1.nextEdge = edge;
+            edge.v2.prevEdge = edge;
+            this.live.add(edge);
+            this.edgesBySource.set(edge.source, [edge]);
+            this.generations.set(edge.source, 0);
+        });
+        this.active = new Set(live.flatMap(ring => ring.vertices));
+    }
+
+    getVertices(): Vertex[] {
+        return [...this.active];
+    }
+
+    getEdges(): Edge[] {
+        return this.getVertices().map(v => v.nextEdge!);
     }
-    
+
+    getSourceEdges(): Edge[] {
+        return [...this.sources];
+    }
+
+    getEdgesOf(source: Edge): Edge[] {
+        return [...(this.edgesBySource.get(source) ?? [])];
+    }
+
+    getEdgesAt(source: Edge, point: Vector, time: number): Edge[] {
+        // The parts of the supporting line whose extent at the time reaches
+        // the point, found by their position along the line
+        const edges = this.edgesBySource.get(source);
+        if (!edges) {
+            return [];
+        }
+        const direction = source.supportDirection();
+        const along = point.dot(direction);
+        const found: Edge[] = [];
+        for (let i = this.searchAlong(source, along + this.tolerance, time) - 1; i >= 0; i--) {
+            if (edges[i].v2.positionAt(time).dot(direction) < along - this.tolerance) {
+                break;
+            }
+            found.push(edges[i]);
+        }
+        return found.reverse();
+    }
+
+    isLive(edge: Edge): boolean {
+        // Whether the edge is still part of the wavefront
+        return this.live.has(edge);
+    }
+
+    getGeneration(source: Edge): number {
+        return this.generations.get(source) ?? 0;
+    }
+
+    getTolerance(): number {
+        return this.tolerance;
+    }
+
+    getTime(): number {
+        return this.time;
+    }
+
+    contains(vertex: Vertex): boolean {
+        return this.active.has(vertex);
+    }
+
     propagateToTime(targetTime: number): void {
         if (targetTime < 0) {
             throw new Error("Target time cannot be negative");
         }
-        
-        const lastTime = this.times[this.times.length - 1];
-        if (targetTime <= lastTime) {
+
+        if (targetTime <= this.time) {
             return; // Already propagated to this time or later
         }
-        
-        // Create new state at target time
-        const lastPolygon = this.polygons[this.polygons.length - 1];
-        const newPolygon = lastPolygon.clone();
-        
-        // Store new state
-        this.polygons.push(newPolygon);
-        this.times.push(targetTime);
+
+        // Vertices move lazily: moving all of them at every event would make
+        // large footprints quadratic, so positionAt() gives their position
+        // at the current time wherever it is needed
+        this.time = targetTime;
+    }
+
+    snapshot(): void {
+        // Store the current rings as new polygon states
+        for (const ring of this.getRings()) {
+            if (ring.length < 3) {
+                continue;
+            }
+
+            const polygon = new Polygon(
+                ring.map(v => v.positionAt(this.time)),
+                ring.map(v => v.nextEdge!.weight)
+            );
+            polygon.vertices.forEach((vertex, i) => {
+                vertex.velocity = ring[i].velocity.clone();
+                vertex.bisector = ring[i].bisector.clone();
+                vertex.origin = ring[i].origin.clone();
+                vertex.time = ring[i].time;
+            });
+
+            this.polygons.push(polygon);
+            this.times.push(this.time);
+        }
     }
-    
+
+    getRings(): Vertex[][] {
+        const rings: Vertex[][] = [];
+        const visited = new Set<Vertex>();
+
+        for (const start of this.active) {
+            if (visited.has(start)) {
+                continue;
+            }
+
+            const ring: Vertex[] = [];
+            let vertex = start;
+            do {
+                visited.add(vertex);
+                ring.push(vertex);
+                vertex = vertex.next!;
+            } while (vertex !== start);
+            rings.push(ring);
+        }
+
+        return rings;
+    }
+
     getCurrentPolygon(): Polygon {
         if (this.polygons.length === 0) {
             throw new Error("No polygon states exist");
         }
         return this.polygons[this.polygons.length - 1];
     }
-    
-    getPolygonAtTime(time: number): Polygon {
+
+    getPolygons(): Polygon[] {
+        return [...this.polygons];
+    }
+
+    getPolygonsAtTime(time: number): Polygon[] {
         if (time < 0) {
             throw new Error("Time cannot be negative");
         }
-        
-        // Find the latest state that's not after the requested time
+
+        // Find the latest state that's not after the requested time; after a
+        // split several rings share the same time
         for (let i = this.times.length - 1; i >= 0; i--) {
             if (this.times[i] <= time) {
-                return this.polygons[i].clone();
+                const stateTime = this.times[i];
+                return this.polygons
+                    .filter((_, j) => this.times[j] === stateTime)
+                    .map(p => p.clone());
             }
         }
-        
+
         throw new Error("No polygon state exists for the requested time");
     }
-    
-    handleEdgeEvent(event: EdgeEvent): void {
-        // Propagate to event time first
-        //this.propagateToTime(event.time);  //TOOD ... TIME
-        
-        const currentPolygon = this.getCurrentPolygon();
+
+    getSkeletonEdges(): Edge[] {
+        return [...this.arcs];
+    }
+
+    handleEdgeEvent(event: EdgeEvent): Vertex[] {
+        this.propagateToTime(event.time);
+
         const edge = event.edge;
-        
-        // Remove the collapsed edge and update topology
         const v1 = edge.v1;
         const v2 = edge.v2;
-        
-        // Find indices to update vertex and edge lists
-        const vertexIndex = currentPolygon.vertices.findIndex(v => v === v1);
-        const edgeIndex = currentPolygon.edges.findIndex(e => e === edge);
-        
-        if (vertexIndex === -1 || edgeIndex === -1) {
+
+        if (!this.active.has(v1) || !this.active.has(v2)) {
             throw new Error("Edge event references invalid geometry");
         }
-        
-        // Update vertex links
-        currentPolygon.vertices.splice(vertexIndex, 2);
-        currentPolygon.edges.splice(edgeIndex, 1);
-        
-        // Reinitialize the polygon to update all links and bisectors
-        currentPolygon.initialize();
-    }
-    
-    handleSplitEvent(event: SplitEvent): void {
-        // Propagate to event time first
-        //this.propagateToTime(event.time); //TODO... FIX
-        
-        const currentPolygon = this.getCurrentPolygon();
-        
-        // Create new vertex at intersection point
-        const newVertex = new Vertex(event.intersection);
-        
-        // Split the edge and update topology
+
+        const point = event.getPoint();
+
+        // Two vertices left: the ring closes into a line
+        if (v2.next === v1) {
+            this.terminate(v1, point);
+            this.terminate(v2, point);
+            return [];
+        }
+
+        // Three vertices left: the ring collapses to a single node
+        if (v1.prev === v2.next) {
+            this.terminate(v1.prev!, point);
+            this.terminate(v1, point);
+            this.terminate(v2, point);
+            return [];
+        }
+
+        // Replace the collapsed edge by a single vertex
+        const prev = v1.prev!;
+        const next = v2.next!;
+        const vertex = new Vertex(point, this.time);
+
+        this.terminate(v1, point);
+        this.terminate(v2, point);
+
+        this.link(prev, vertex, v1.prevEdge!.source);
+        this.link(vertex, next, v2.nextEdge!.source);
+        this.active.add(vertex);
+
+        return [vertex];
+    }
+
+    handleSplitEvent(event: SplitEvent): Vertex[] {
+        this.propagateToTime(event.time);
+
+        const vertex = event.vertex;
         const splitEdge = event.edge;
-        const splitVertex = event.vertex;
-        
-        // Find indices
-        const edgeIndex = currentPolygon.edges.findIndex(e => e === splitEdge);
-        const vertexIndex = currentPolygon.vertices.findIndex(v => v === splitVertex);
-        
-        if (edgeIndex === -1 || vertexIndex === -1) {
+
+        if (!this.active.has(vertex) || !this.active.has(splitEdge.v1)) {
             throw new Error("Split event references invalid geometry");
         }
-        
-        // Insert new vertex into vertices list
-        currentPolygon.vertices.splice(vertexIndex + 1, 0, newVertex);
-        
-        // Create new edge
-        const newEdge = new Edge(splitVertex, newVertex);
-        currentPolygon.edges.splice(edgeIndex + 1, 0, newEdge);
-        
-        // Reinitialize the polygon to update all links and bisectors
-        currentPolygon.initialize();
-    }
-    
+
+        const point = vertex.positionAt(this.time);
+        const prev = vertex.prev!;
+        const next = vertex.next!;
+
+        // The reflex vertex divides the ring in two: one continues from its
+        // previous neighbour to the far end of the split edge, the other from
+        // the near end of the split edge back to its next neighbour. When the
+        // edge belongs to another ring (a hole), the same relinking merges
+        // both rings into one
+        const left = new Vertex(point, this.time);
+        const right = new Vertex(point, this.time);
+
+        this.terminate(vertex, point);
+
+        this.link(prev, left, vertex.prevEdge!.source);
+        this.link(left, splitEdge.v2, splitEdge.source);
+        this.link(splitEdge.v1, right, splitEdge.source);
+        this.link(right, next, vertex.nextEdge!.source);
+        this.active.add(left);
+        this.active.add(right);
+
+        return [left, right];
+    }
+
+    handleVertexEvent(event: VertexEvent): Vertex[] {
+        this.propagateToTime(event.time);
+
+        const point = event.point;
+        const tolerance = this.tolerance;
+
+        // Every vertex at the node meets there, whichever event brought it.
+        // Such a vertex ends an edge through the node, so the edges of the
+        // events and the edges found near the node cover them all
+        const candidates = new Set<Edge>(event.nearby);
+        for (const vertex of event.getVertices()) {
+            candidates.add(vertex.prevEdge!).add(vertex.nextEdge!);
+        }
+        event.getSplitEdges().forEach(edge => candidates.add(edge));
+        const through = [...candidates].filter(edge => this.isLive(edge) &&
+            Wavefront.distanceToSegment(point, edge.v1.positionAt(this.time), edge.v2.positionAt(this.time)) <= tolerance);
+
+        const at = (vertex: Vertex) =>
+            this.active.has(vertex) && vertex.positionAt(this.time).minus(point).length() <= tolerance;
+        const meeting = new Set<Vertex>();
+        for (const vertex of through.flatMap(edge => [edge.v1, edge.v2]).filter(at)) {
+            for (let v = vertex; at(v) && !meeting.has(v); v = v.next!) {
+                meeting.add(v);
+            }
+            for (let v = vertex.prev!; at(v) && !meeting.has(v); v = v.prev!) {
+                meeting.add(v);
+            }
+        }
+        if (meeting.size === 0) {
+            throw new Error("Vertex event references invalid geometry");
+        }
+
+        // Each run of consecutive meeting vertices leaves one wavefront edge
+        // arriving at the node and one leaving it; the edges in between
+        // collapse. Rings that arrive completely vanish
+        const arriving: { from: Vertex; source: Edge }[] = [];
+        const leaving: { to: Vertex; source: Edge }[] = [];
+
+        for (const vertex of meeting) {
+            if (meeting.has(vertex.prev!)) {
+                continue;
+            }
+            let last = vertex;
+            while (meeting.has(last.next!)) {
+                last = last.next!;
+            }
+            arriving.push({ from: vertex.prev!, source: vertex.prevEdge!.source });
+            leaving.push({ to: last.next!, source: last.nextEdge!.source });
+        }
+
+        // Edges that pass through the node are split there, as by a
+        // reflex vertex
+        for (const edge of through) {
+            if (!meeting.has(edge.v1) && !meeting.has(edge.v2)) {
+                arriving.push({ from: edge.v1, source: edge.source });
+                leaving.push({ to: edge.v2, source: edge.source });
+            }
+        }
+
+        // A lone vertex with nothing to meet: the events were spurious
+        if (meeting.size === 1 && arriving.length === 1) {
+            return [];
+        }
+
+        meeting.forEach(vertex => this.terminate(vertex, point));
+
+        // The interior lies clockwise from an arriving edge to the leaving
+        // edge it continues with, so pair the edges with the smallest turn
+        // between them. Coinciding edges enclose a zero-width sliver, which
+        // gets its own vertex and collapses later
+        const turns: { turn: number; a: number; l: number }[] = [];
+        arriving.forEach((a, i) => {
+            const back = Math.atan2(-a.source.supportDirection().y, -a.source.supportDirection().x);
+            leaving.forEach((l, j) => {
+                const out = Math.atan2(l.source.supportDirection().y, l.source.supportDirection().x);
+                let turn = (back - out) % (2 * Math.PI);
+                if (turn < 0) {
+                    turn += 2 * Math.PI;
+                }
+                if (2 * Math.PI - turn < 1e-9) {
+                    turn = 0;
+                }
+                turns.push({ turn, a: i, l: j });
+            });
+        });
+        turns.sort((p, q) => p.turn - q.turn);
+
+        const created: Vertex[] = [];
+        const usedArriving = new Set<number>();
+        const usedLeaving = new Set<number>();
+
+        for (const { a, l } of turns) {
+            if (usedArriving.has(a) || usedLeaving.has(l)) {
+                continue;
+            }
+            usedArriving.add(a);
+            usedLeaving.add(l);
+
+            const from = arriving[a].from;
+            const to = leaving[l].to;
+
+            // A single vertex left between the two edges: the ring closes
+            if (from === to) {
+                this.terminate(from, point);
+                continue;
+            }
+
+            const vertex = new Vertex(point, this.time);
+            this.link(from, vertex, arriving[a].source);
+            this.link(vertex, to, leaving[l].source);
+            this.active.add(vertex);
+            created.push(vertex);
+        }
+
+        return created;
+    }
+
+    private static distanceToSegment(point: Vector, start: Vector, end: Vector): number {
+        const segment = end.minus(start);
+        const lengthSquared = segment.dot(segment);
+        if (lengthSquared === 0) {
+            return point.minus(start).length();
+        }
+        const t = Math.max(0, Math.min(1, point.minus(start).dot(segment) / lengthSquared));
+        return point.minus(start.plus(segment.scale(t))).length();
+    }
+
+    private link(from: Vertex, to: Vertex, source: Edge): void {
+        this.retire(from.nextEdge);
+        this.retire(to.prevEdge);
+
+        const edge = new Edge(from, to, source);
+        const along = from.positionAt(this.time).dot(source.supportDirection());
+        this.edgesBySource.get(source)!.splice(this.searchAlong(source, along, this.time), 0, edge);
+        this.live.add(edge);
+        from.next = to;
+        from.nextEdge = edge;
+        to.prev = from;
+        to.prevEdge = edge;
+    }
+
+    private retire(edge: Edge | null): void {
+        if (!edge || !this.live.delete(edge)) {
+            return;
+        }
+
+        // Look for the edge next to where its start sorts; rounding can
+        // leave it a few places away
+        const edges = this.edgesBySource.get(edge.source)!;
+        const along = edge.v1.positionAt(this.time).dot(edge.source.supportDirection());
+        const near = this.searchAlong(edge.source, along, this.time);
+        let index = edges.indexOf(edge, Math.max(0, near - 4));
+        if (index < 0 || index > near + 4) {
+            index = edges.indexOf(edge);
+        }
+        edges.splice(index, 1);
+        this.generations.set(edge.source, this.getGeneration(edge.source) + 1);
+    }
+
+    private searchAlong(source: Edge, along: number, time: number): number {
+        // Index of the first part of the supporting line that starts beyond
+        // the position along it at the time
+        const edges = this.edgesBySource.get(source)!;
+        const direction = source.supportDirection();
+        let low = 0;
+        let high = edges.length;
+        while (low < high) {
+            const middle = (low + high) >> 1;
+            if (edges[middle].v1.positionAt(time).dot(direction) <= along) {
+                low = middle + 1;
+            } else {
+                high = middle;
+            }
+        }
+        return low;
+    }
+
+    private terminate(vertex: Vertex, at: Vector): void {
+        vertex.position = at;
+        vertex.processed = true;
+        this.active.delete(vertex);
+        this.retire(vertex.prevEdge);
+        this.retire(vertex.nextEdge);
+
+        // Record the path the vertex travelled as a skeleton edge; it
+        // separates the faces of the two edges the vertex joined
+        if (at.minus(vertex.origin).length() > 0) {
+            const arc = new Edge(
+                new Vertex(vertex.origin, vertex.time),
+                new Vertex(at, this.time)
+            );
+            arc.faces = [vertex.prevEdge!.source, vertex.nextEdge!.source];
+            this.arcs.push(arc);
+        }
+    }
+
     validateState(): boolean {
         // Check if we have consistent history
         if (this.polygons.length !== this.times.length) {
             return false;
         }
-        
-        // Check if times are strictly increasing
+
+        // Check if times never decrease
         for (let i = 1; i < this.times.length; i++) {
-            if (this.times[i] <= this.times[i - 1]) {
+            if (this.times[i] < this.times[i - 1]) {
                 return false;
             }
         }
-        
-        // Validate current polygon
-        const current = this.getCurrentPolygon();
-        
+
         // Check if all vertices have proper links
-        for (const vertex of current.vertices) {
-            if (!vertex.prev || !vertex.next || !vertex.bisector) {
+        for (const vertex of this.active) {
+            if (!vertex.prev || !vertex.next || !vertex.prevEdge || !vertex.nextEdge) {
+                return false;
+            }
+            if (vertex.next.prev !== vertex || vertex.nextEdge !== vertex.next.prevEdge) {
                 return false;
             }
         }
-        
+
         // Check if all edges reference valid vertices
-        for (const edge of current.edges) {
-            if (!current.vertices.includes(edge.v1) || 
-                !current.vertices.includes(edge.v2)) {
+        for (const edge of this.getEdges()) {
+            if (!this.active.has(edge.v1) || !this.active.has(edge.v2)) {
                 return false;
             }
         }
-        
-        // Check if polygon is still simple
-        return current.isSimple();
+
+        return true;
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import { DxfWriter } from '../src/lib/io/DxfWriter';
+import { Skeleton } from '../src/lib/skeleton/Skeleton';
+import { Polygon } from '../src/lib/skeleton/Polygon';
+import { Angle } from '../src/lib/skeleton/Angle';
+import { Vector } from '../src/lib/skeleton/Vector';
+
+function rectangle(): Polygon {
+    return new Polygon([new Vector(0, 0), new Vector(8, 0), new Vector(8, 5), new Vector(0, 5)]);
+}
+
+function lShape(): Polygon {
+    return new Polygon([
+        new Vector(0, 0), new Vector(8, 0), new Vector(8, 3),
+        new Vector(3, 3), new Vector(3, 6), new Vector(0, 6)
+    ]);
+}
+
+// Group code and value pairs of the ENTITIES section
+function entities(dxf: string): [string, string][] {
+    const lines = dxf.trim().split('\n');
+    const pairs: [string, string][] = [];
+    for (let i = 0; i < lines.length; i += 2) {
+        pairs.push([lines[i], lines[i + 1]]);
+    }
+    const start = pairs.findIndex(([, value]) => value === 'ENTITIES');
+    return pairs.slice(start + 1, pairs.findIndex(([, value], i) => i > start && value === 'ENDSEC'));
+}
+
+function layersOf(dxf: string, type: string): string[] {
+    const pairs = entities(dxf);
+    return pairs.flatMap(([code, value], i) => code === '0' && value === type ? [pairs[i + 1][1]] : []);
+}
+
+describe('DxfWriter', () => {
+    it('should write an R12 document with the layer table', () => {
+        const dxf = DxfWriter.write(rectangle(), Skeleton.build(rectangle()));
+        const lines = dxf.trim().split('\n');
+
+        expect(lines.length % 2).toBe(0);
+        expect(lines.slice(0, 8)).toEqual(['0', 'SECTION', '2', 'HEADER', '9', '$ACADVER', '1', 'AC1009']);
+        expect(lines.slice(-2)).toEqual(['0', 'EOF']);
+        for (const layer of ['FOOTPRINT', 'RIDGE', 'HIP', 'VALLEY', 'WAVEFRONT', 'ROOF']) {
+            expect(dxf).toContain(`0\nLAYER\n2\n${layer}\n`);
+        }
+        expect(dxf).not.toContain('$INSUNITS');
+        expect(dxf.indexOf('0\nLTYPE\n2\nCONTINUOUS\n')).toBeGreaterThan(0);
+        expect(dxf.indexOf('0\nLTYPE\n2\nCONTINUOUS\n')).toBeLessThan(dxf.indexOf('2\nLAYER\n'));
+    });
+
+    it('should put the ridge and hips of a hipped roof on their layers', () => {
+        const skeleton = Skeleton.build(rectangle());
+        const layers = layersOf(DxfWriter.write(rectangle(), skeleton), 'POLYLINE');
+
+        expect(layers.filter(l => l === 'FOOTPRINT')).toHaveLength(1);
+        expect(layers.filter(l => l === 'RIDGE')).toHaveLength(1);
+        expect(layers.filter(l => l === 'HIP')).toHaveLength(4);
+        expect(layers.filter(l => l === 'VALLEY')).toHaveLength(0);
+        expect(layers.filter(l => l === 'ROOF')).toHaveLength(4);
+    });
+
+    it('should find the valley at a reflex corner', () => {
+        const skeleton = Skeleton.build(lShape());
+        const faces = skeleton.getFaces();
+        const valleys = skeleton.getSkeletonEdges().filter(arc => DxfWriter.classify(arc, faces) === 'VALLEY');
+
+        expect(valleys).toHaveLength(1);
+        const corner = [valleys[0].v1, valleys[0].v2].find(v => v.time === 0)!;
+        expect([corner.position.x, corner.position.y]).toEqual([3, 3]);
+    });
+
+    it('should treat the edges next to a gable as hips and ridges', () => {
+        const polygon = rectangle();
+        polygon.setGable(1);
+        polygon.setGable(3);
+        const skeleton = Skeleton.build(polygon);
+        const faces = skeleton.getFaces();
+        const kinds = skeleton.getSkeletonEdges().map(arc => DxfWriter.classify(arc, faces));
+
+        expect(kinds).not.toContain('VALLEY');
+        expect(kinds).toContain('RIDGE');
+    });
+
+    it('should scale to the drawing units and lift lines with a pitch', () => {
+        const flat = entities(new DxfWriter({ units: 'mm' }).addPolygon(rectangle()).toString());
+        const xs = flat.filter(([code]) => code === '10').map(([, value]) => Number(value));
+        expect(Math.max(...xs)).toBe(8000);
+        expect(flat).toContainEqual(['70', '1']);
+
+        const dxf = DxfWriter.write(rectangle(), Skeleton.build(rectangle()), { pitch: Angle.fromDegrees(45), units: 'cm' });
+        const pairs = entities(dxf);
+        const ridge = pairs.findIndex(([code, value], i) => value === 'POLYLINE' && pairs[i + 1][1] === 'RIDGE');
+        expect(pairs[ridge + 3]).toEqual(['70', '8']);
+        const heights = pairs.slice(ridge).filter(([code]) => code === '30').slice(1, 3).map(([, value]) => Number(value));
+        expect(heights).toEqual([250, 250]);
+        expect(pairs.slice(ridge, ridge + 20)).toContainEqual(['70', '32']);
+    });
+
+    it('should reject unknown units and pitches outside the range', () => {
+        expect(() => new DxfWriter({ units: 'yd' as any })).toThrow(/Unknown DXF units: yd/);
+        expect(() => new DxfWriter({ pitch: Angle.fromDegrees(90) })).toThrow(/between 0 and 90/);
+    });
+});
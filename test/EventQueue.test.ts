@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { EventQueue } from '../src/lib/skeleton/EventQueue';
+import { EdgeEvent } from '../src/lib/skeleton/EdgeEvent';
+import { VertexEvent } from '../src/lib/skeleton/VertexEvent';
+import { Edge } from '../src/lib/skeleton/Edge';
+import { Vertex } from '../src/lib/skeleton/Vertex';
+import { Vector } from '../src/lib/skeleton/Vector';
+
+// An edge between two fixed points: its event happens at their midpoint
+function eventAt(time: number, x: number, y: number): EdgeEvent {
+    return new EdgeEvent(time, new Edge(new Vertex(new Vector(x - 1, y)), new Vertex(new Vector(x + 1, y))));
+}
+
+describe('EventQueue', () => {
+    it('should poll events in time order', () => {
+        const queue = new EventQueue();
+        queue.add(eventAt(3, 0, 0));
+        queue.add(eventAt(1, 0, 0));
+        queue.add(eventAt(2, 0, 0));
+
+        expect([queue.poll()!.time, queue.poll()!.time, queue.poll()!.time]).toEqual([1, 2, 3]);
+        expect(queue.isEmpty()).toBe(true);
+    });
+
+    it('should cluster events at the same time and place', () => {
+        const queue = new EventQueue();
+        const first = eventAt(1, 2, 2);
+        const same = eventAt(1 + 1e-9, 2, 2 + 1e-9);
+        const elsewhere = eventAt(1, 5, 2);
+        const later = eventAt(1.5, 2, 2);
+        [later, same, first, elsewhere].forEach(e => queue.add(e));
+
+        const cluster = queue.pollCluster(1e-7);
+
+        expect(cluster).toHaveLength(2);
+        expect(cluster).toContain(first);
+        expect(cluster).toContain(same);
+        expect(queue.size()).toBe(2);
+        expect(queue.pollCluster(1e-7)).toEqual([elsewhere]);
+        expect(queue.pollCluster(1e-7)).toEqual([later]);
+        expect(queue.pollCluster(1e-7)).toEqual([]);
+    });
+
+    it('should order simultaneous events by kind, then by insertion', () => {
+        const queue = new EventQueue();
+        const collapse = eventAt(1, 0, 0);
+        const node = new VertexEvent(1, new Vector(0, 0), [eventAt(1, 0, 0)]);
+        const second = eventAt(1, 0, 0);
+        [node, collapse, second].forEach(e => queue.add(e));
+
+        expect(queue.poll()).toBe(collapse);
+        expect(queue.poll()).toBe(second);
+        expect(queue.poll()).toBe(node);
+    });
+
+    it('should keep heap order over many events', () => {
+        const queue = new EventQueue();
+        let seed = 7;
+        const random = () => (seed = (seed * 16807) % 2147483647) / 2147483647;
+        for (let i = 0; i < 1000; i++) {
+            queue.add(eventAt(Math.floor(random() * 100), random(), random()));
+        }
+
+        const times: number[] = [];
+        while (!queue.isEmpty()) {
+            times.push(queue.poll()!.time);
+        }
+
+        expect(times).toHaveLength(1000);
+        expect(times).toEqual([...times].sort((a, b) => a - b));
+    });
+
+    it('should list the pending events in the order they leave', () => {
+        const queue = new EventQueue();
+        const events = [eventAt(2, 0, 0), eventAt(1, 0, 0), eventAt(1, 5, 0), eventAt(3, 0, 0)];
+        events.forEach(e => queue.add(e));
+        queue.pollCluster(1e-7);
+
+        const pending = queue.toArray();
+
+        expect(pending).toEqual([events[2], events[0], events[3]]);
+        expect(queue.size()).toBe(3);
+        expect(pending.map(() => queue.poll())).toEqual(pending);
+    });
+
+    it('should list only as many pending events as asked for', () => {
+        const queue = new EventQueue();
+        const events = [eventAt(2, 0, 0), eventAt(1, 0, 0), eventAt(1, 5, 0), eventAt(1, 9, 0), eventAt(3, 0, 0)];
+        events.forEach(e => queue.add(e));
+        queue.pollCluster(1e-7);
+
+        expect(queue.toArray(2)).toEqual([events[2], events[3]]);
+        expect(queue.toArray(3)).toEqual([events[2], events[3], events[0]]);
+        expect(queue.toArray(0)).toEqual([]);
+        expect(queue.toArray()).toHaveLength(queue.size());
+    });
+});
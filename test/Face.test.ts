@@ -0,0 +1,89 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import { Skeleton } from '../src/lib/skeleton/Skeleton';
+import { Polygon } from '../src/lib/skeleton/Polygon';
+import { Vector } from '../src/lib/skeleton/Vector';
+import { Offset } from '../src/lib/skeleton/Offset';
+import { TEST_GEOMETRIES } from './TestGeometries';
+
+function polygonOf(geometryKey: string): Polygon {
+    return new Polygon(Object.values(TEST_GEOMETRIES[geometryKey].points));
+}
+
+describe('Face', () => {
+    beforeAll(() => {
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    afterAll(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('should trace one face per edge of the rectangle', () => {
+        const faces = Skeleton.build(polygonOf('rectangle')).getFaces();
+
+        expect(faces).toHaveLength(4);
+        expect(faces[0].points).toEqual([
+            new Vector(0, 0), new Vector(8, 0), new Vector(5.5, 2.5), new Vector(2.5, 2.5)
+        ]);
+        expect(faces[0].times).toEqual([0, 0, 2.5, 2.5]);
+        expect(faces[1].points).toEqual([new Vector(8, 0), new Vector(8, 5), new Vector(5.5, 2.5)]);
+    });
+
+    it('should link faces that share a skeleton edge', () => {
+        const faces = Skeleton.build(polygonOf('rectangle')).getFaces();
+
+        expect(faces.map(face => face.neighbours)).toEqual([
+            [1, 2, 3],
+            [0, 2],
+            [0, 1, 3],
+            [0, 2]
+        ]);
+    });
+
+    it('should cover the footprint without gaps or overlaps', () => {
+        const polygon = polygonOf('complexPolygon');
+        const faces = Skeleton.build(polygon).getFaces();
+        const total = faces.reduce((sum, face) => sum + face.area(), 0);
+
+        expect(faces).toHaveLength(6);
+        faces.forEach(face => expect(face.area()).toBeGreaterThan(0));
+        expect(total).toBeCloseTo(polygon.area());
+    });
+
+    it('should surround a courtyard', () => {
+        const frame = new Polygon([new Vector(0, 0), new Vector(10, 0), new Vector(10, 10), new Vector(0, 10)]);
+        frame.addHole([new Vector(3, 3), new Vector(3, 7), new Vector(7, 7), new Vector(7, 3)]);
+        const faces = Skeleton.build(frame).getFaces();
+        const total = faces.reduce((sum, face) => sum + face.area(), 0);
+
+        expect(faces).toHaveLength(8);
+        expect(total).toBeCloseTo(100 - 16);
+    });
+
+    it('should cut the wavefront across a face at a given time', () => {
+        const [bottom] = Skeleton.build(polygonOf('rectangle')).getFaces();
+        const [[start, end]] = bottom.frontAt(1);
+
+        expect(start.x).toBeCloseTo(1);
+        expect(start.y).toBeCloseTo(1);
+        expect(end.x).toBeCloseTo(7);
+        expect(end.y).toBeCloseTo(1);
+        expect(bottom.frontAt(3)).toEqual([]);
+    });
+
+    it('should trace the same wavefront as the inward offset', () => {
+        const polygon = polygonOf('complexPolygon');
+        const faces = Skeleton.build(polygon).getFaces();
+        const length = faces
+            .flatMap(face => face.frontAt(0.5))
+            .reduce((sum, [start, end]) => sum + end.minus(start).length(), 0);
+        const perimeter = Offset.inward(polygon, 0.5)
+            .flatMap(offset => offset.getRings())
+            .flatMap(ring => ring.vertices.map((v, i) =>
+                ring.vertices[(i + 1) % ring.vertices.length].position.minus(v.position).length()))
+            .reduce((sum, side) => sum + side, 0);
+
+        expect(length).toBeGreaterThan(0);
+        expect(length).toBeCloseTo(perimeter);
+    });
+});
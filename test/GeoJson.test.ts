@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import { GeoJsonReader } from '../src/lib/io/GeoJsonReader';
+import { GeoJsonWriter, FaceProperties } from '../src/lib/io/GeoJsonWriter';
+import { LocalProjection } from '../src/lib/io/LocalProjection';
+import { PolygonGeometry, LineStringGeometry } from '../src/lib/io/GeoJson';
+import { Skeleton } from '../src/lib/skeleton/Skeleton';
+import { SkeletonSet } from '../src/lib/skeleton/SkeletonSet';
+import { Angle } from '../src/lib/skeleton/Angle';
+import { Vector } from '../src/lib/skeleton/Vector';
+
+// A 20 x 10 m rectangle near Bern, as a closed GeoJSON ring
+function footprint(): number[][] {
+    const projection = new LocalProjection(7.44, 46.95);
+    return [[0, 0], [20, 0], [20, 10], [0, 10], [0, 0]].map(([x, y]) => projection.inverse(new Vector(x, y)));
+}
+
+describe('GeoJSON', () => {
+    it('should project distances along the axes at their length on the ellipsoid', () => {
+        const equator = new LocalProjection(0, 0);
+        expect(equator.forward(0.001, 0).x).toBeCloseTo(6378137 * Math.PI / 180 * 0.001, 3);
+
+        // A degree of longitude at 52 degrees north, on the WGS84 ellipsoid
+        const e2 = 0.0066943799901413165;
+        const phi = 52 * Math.PI / 180;
+        const degree = Math.PI / 180 * 6378137 * Math.cos(phi) / Math.sqrt(1 - e2 * Math.sin(phi) ** 2);
+        expect(new LocalProjection(13, 52).forward(13.01, 52).x).toBeCloseTo(degree * 0.01, 2);
+    });
+
+    it('should return to the same longitude and latitude', () => {
+        const projection = new LocalProjection(-73.98, 40.75);
+        for (const [lon, lat] of [[-73.98, 40.75], [-73.95, 40.78], [-74.02, 40.70]]) {
+            const [x, y] = projection.inverse(projection.forward(lon, lat));
+            expect(x).toBeCloseTo(lon, 11);
+            expect(y).toBeCloseTo(lat, 11);
+        }
+    });
+
+    it('should read a polygon in metres around its centroid', () => {
+        const { polygons, properties, projection } = GeoJsonReader.read(JSON.stringify({
+            type: 'Feature',
+            properties: { name: 'shed' },
+            geometry: { type: 'Polygon', coordinates: [footprint()] }
+        }));
+
+        expect(polygons).toHaveLength(1);
+        expect(properties).toEqual([{ name: 'shed' }]);
+        expect(polygons[0].vertices).toHaveLength(4);
+        expect(polygons[0].area()).toBeCloseTo(200, 4);
+        expect(polygons[0].edges[0].length()).toBeCloseTo(20, 5);
+        expect(projection.forward(projection.longitude, projection.latitude).length()).toBe(0);
+        polygons[0].vertices.forEach(v => expect(v.position.length()).toBeLessThan(12));
+    });
+
+    it('should orient rings and split multipolygons', () => {
+        const outer = footprint();
+        const hole = [[0.25, 0.25], [0.25, 0.75], [0.75, 0.75], [0.75, 0.25]].map(([u, v]) =>
+            [outer[0][0] + u * (outer[1][0] - outer[0][0]), outer[0][1] + v * (outer[3][1] - outer[0][1])]);
+        const shifted = outer.map(([lon, lat]) => [lon + 0.001, lat]);
+
+        const { polygons } = GeoJsonReader.read({
+            type: 'MultiPolygon',
+            coordinates: [[[...outer].reverse(), [...hole].reverse()], [shifted]]
+        });
+
+        expect(polygons).toHaveLength(2);
+        expect(polygons[0].isClockwise()).toBe(false);
+        expect(polygons[0].holes).toHaveLength(1);
+        expect(polygons[0].holes[0].isClockwise()).toBe(true);
+        expect(polygons[0].hasValidOrientation()).toBe(true);
+        expect(() => Skeleton.build(polygons[0])).not.toThrow();
+    });
+
+    it('should reject other geometries and empty input', () => {
+        expect(() => GeoJsonReader.read({ type: 'Point' })).toThrow(/Unsupported GeoJSON geometry type: Point/);
+        expect(() => GeoJsonReader.read({ type: 'FeatureCollection', features: [] })).toThrow(/no polygons/);
+        expect(() => GeoJsonReader.read({ type: 'Polygon', coordinates: [[[0, 0], [1, 1], [0, 0]]] })).toThrow();
+    });
+
+    it('should write faces and skeleton edges back in WGS84', () => {
+        const { polygons, projection } = GeoJsonReader.read({ type: 'Polygon', coordinates: [footprint()] });
+        const collection = JSON.parse(GeoJsonWriter.write(Skeleton.build(polygons[0]), projection, { pitch: Angle.fromDegrees(45) }));
+
+        const faces = collection.features.filter((f: any) => f.properties.kind === 'face');
+        const arcs = collection.features.filter((f: any) => f.properties.kind === 'skeleton-edge');
+        expect(faces).toHaveLength(4);
+        expect(arcs.length).toBeGreaterThan(0);
+
+        // The eave of the first face runs along the first edge of the footprint
+        const ring = (faces[0].geometry as PolygonGeometry).coordinates[0];
+        expect(ring[0]).toEqual(ring[ring.length - 1]);
+        expect(ring[0][0]).toBeCloseTo(footprint()[0][0], 9);
+        expect(ring[0][1]).toBeCloseTo(footprint()[0][1], 9);
+        expect(ring[0][2]).toBe(0);
+
+        const properties = faces[0].properties as FaceProperties;
+        expect(properties).toMatchObject({ faceId: 0, weight: 1, gable: false, neighbours: [1, 2, 3] });
+        expect(properties.pitch).toBeCloseTo(45, 9);
+        expect(properties.height).toBeCloseTo(5, 6);
+
+        // The ridge runs at the roof's height
+        const ridge = arcs.find((f: any) => (f.geometry as LineStringGeometry).coordinates.every(p => p[2] > 4.99));
+        expect([...ridge.properties.faces].sort()).toEqual([0, 2]);
+    });
+
+    it('should tell the components of a skeleton set apart', () => {
+        const outer = footprint();
+        const { polygons, projection } = GeoJsonReader.read({
+            type: 'MultiPolygon',
+            coordinates: [[outer], [outer.map(([lon, lat]) => [lon, lat + 0.001])]]
+        });
+        const collection = GeoJsonWriter.toFeatureCollection(SkeletonSet.build(polygons), projection);
+
+        expect(new Set(collection.features.map(f => f.properties.component))).toEqual(new Set(['0', '1']));
+        expect((collection.features[0].geometry as PolygonGeometry).coordinates[0][0]).toHaveLength(2);
+    });
+});
@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { Heap } from '../src/lib/skeleton/Heap';
+
+describe('Heap', () => {
+    it('should pop items in order', () => {
+        const heap = new Heap<number>((a, b) => a < b);
+        [5, 1, 4, 1, 3, 9, 2].forEach(item => heap.push(item));
+
+        expect(heap.peek()).toBe(1);
+        expect(heap.size()).toBe(7);
+        expect(Array.from({ length: 7 }, () => heap.pop())).toEqual([1, 1, 2, 3, 4, 5, 9]);
+        expect(heap.pop()).toBeUndefined();
+    });
+
+    it('should follow the comparison it is given', () => {
+        const heap = new Heap<string>((a, b) => a.length > b.length);
+        ['a', 'abc', 'ab'].forEach(item => heap.push(item));
+
+        expect(heap.pop()).toBe('abc');
+        heap.clear();
+        expect(heap.size()).toBe(0);
+    });
+
+    it('should list the first items in order without popping them', () => {
+        const heap = new Heap<number>((a, b) => a < b);
+        [5, 1, 4, 1, 3, 9, 2].forEach(item => heap.push(item));
+
+        expect(heap.first(4)).toEqual([1, 1, 2, 3]);
+        expect(heap.first(10)).toEqual([1, 1, 2, 3, 4, 5, 9]);
+        expect(heap.first(0)).toEqual([]);
+        expect(heap.size()).toBe(7);
+    });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { ConsoleLogger, LogRecord, RingBuffer, formatRecord } from '../src/lib/skeleton/Logger';
+import { Skeleton } from '../src/lib/skeleton/Skeleton';
+import { Polygon } from '../src/lib/skeleton/Polygon';
+import { Vector } from '../src/lib/skeleton/Vector';
+
+function lShape(): Polygon {
+    return new Polygon([
+        new Vector(0, 0), new Vector(8, 0), new Vector(8, 3),
+        new Vector(3, 3), new Vector(3, 6), new Vector(0, 6)
+    ]);
+}
+
+describe('Logger', () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('should keep the last items of a ring buffer, oldest first', () => {
+        const buffer = new RingBuffer<number>(3);
+        [1, 2, 3, 4, 5].forEach(item => buffer.push(item));
+
+        expect(buffer.toArray()).toEqual([3, 4, 5]);
+        expect(buffer.size()).toBe(3);
+        expect(new RingBuffer<number>(0).toArray()).toEqual([]);
+    });
+
+    it('should not write to the console by default', () => {
+        const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+        const skeleton = Skeleton.build(lShape());
+
+        expect(log).not.toHaveBeenCalled();
+        expect(skeleton.getDebugLog().length).toBeGreaterThan(0);
+        expect(skeleton.getDebugRecords().every(record => record.level !== 'trace' && record.level !== 'debug')).toBe(true);
+    });
+
+    it('should pass structured records at or above the level to the logger', () => {
+        const records: LogRecord[] = [];
+        Skeleton.build(lShape(), { logger: { log: record => records.push(record) }, logLevel: 'debug' });
+
+        expect(records.some(record => record.level === 'debug')).toBe(true);
+        expect(records.some(record => record.level === 'trace')).toBe(false);
+
+        const processed = records.find(record => record.message === 'Processing edge event');
+        expect(processed).toMatchObject({ level: 'debug', event: 'EdgeEvent', vertices: [] });
+        expect(processed!.time).toBeGreaterThan(0);
+        expect(processed!.edges).toHaveLength(1);
+    });
+
+    it('should cap the debug log', () => {
+        const skeleton = Skeleton.build(lShape(), { logLevel: 'trace', debugLogSize: 10 });
+        const records = skeleton.getDebugRecords();
+
+        expect(records).toHaveLength(10);
+        expect(records[records.length - 1].message).toBe('Event processing complete');
+    });
+
+    it('should write text lines or records to the console', () => {
+        const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+        const record: LogRecord = {
+            level: 'info', message: 'Processing edge event', timestamp: '2024-01-01T00:00:00.000Z',
+            event: 'EdgeEvent', time: 1.5, edges: [7]
+        };
+
+        new ConsoleLogger().log(record);
+        new ConsoleLogger(true).log(record);
+        new ConsoleLogger().log({ ...record, level: 'warn' });
+
+        expect(log).toHaveBeenNthCalledWith(1,
+            '[2024-01-01T00:00:00.000Z] INFO Processing edge event [EdgeEvent; t=1.5; edges 7]');
+        expect(log).toHaveBeenNthCalledWith(2, record);
+        expect(warn).toHaveBeenCalledWith(formatRecord({ ...record, level: 'warn' }));
+    });
+});
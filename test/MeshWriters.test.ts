@@ -0,0 +1,77 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import { ObjWriter } from '../src/lib/io/ObjWriter';
+import { StlWriter } from '../src/lib/io/StlWriter';
+import { GltfWriter } from '../src/lib/io/GltfWriter';
+import { RoofBuilder } from '../src/lib/roof/RoofBuilder';
+import { RoofMesh } from '../src/lib/roof/RoofMesh';
+import { Skeleton } from '../src/lib/skeleton/Skeleton';
+import { Polygon } from '../src/lib/skeleton/Polygon';
+import { Angle } from '../src/lib/skeleton/Angle';
+import { TEST_GEOMETRIES } from './TestGeometries';
+
+describe('Mesh writers', () => {
+    let mesh: RoofMesh;
+
+    beforeAll(() => {
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+        const polygon = new Polygon(Object.values(TEST_GEOMETRIES['rectangle'].points));
+        mesh = RoofBuilder.build(Skeleton.build(polygon), Angle.fromDegrees(45));
+    });
+
+    afterAll(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('should write OBJ vertices, normals and one group per roof face', () => {
+        const lines = ObjWriter.write(mesh).split('\n');
+
+        expect(lines.filter(l => l.startsWith('v '))).toHaveLength(mesh.vertexCount());
+        expect(lines.filter(l => l.startsWith('vn '))).toHaveLength(mesh.vertexCount());
+        expect(lines.filter(l => l.startsWith('f '))).toHaveLength(mesh.triangleCount());
+        expect(lines.filter(l => l.startsWith('g '))).toEqual(['g face_0', 'g face_1', 'g face_2', 'g face_3']);
+        expect(lines.find(l => l.startsWith('f '))).toMatch(/^f (\d+)\/\/\1 (\d+)\/\/\2 (\d+)\/\/\3$/);
+    });
+
+    it('should write ASCII STL facets', () => {
+        const stl = StlWriter.writeAscii(mesh);
+
+        expect(stl.startsWith('solid roof\n')).toBe(true);
+        expect(stl.trimEnd().endsWith('endsolid roof')).toBe(true);
+        expect(stl.match(/facet normal/g)).toHaveLength(mesh.triangleCount());
+    });
+
+    it('should write binary STL with the triangle count in the header', () => {
+        const buffer = StlWriter.writeBinary(mesh);
+        const view = new DataView(buffer);
+
+        expect(buffer.byteLength).toBe(84 + 50 * mesh.triangleCount());
+        expect(view.getUint32(80, true)).toBe(mesh.triangleCount());
+        // First vertex of the first triangle follows the facet normal
+        expect(view.getFloat32(96, true)).toBeCloseTo(mesh.getPosition(mesh.getTriangle(0)[0])[0]);
+    });
+
+    it('should write glTF with an embedded buffer', () => {
+        const gltf = JSON.parse(GltfWriter.write(mesh));
+        const uri: string = gltf.buffers[0].uri;
+        const bytes = Uint8Array.from(atob(uri.split(',')[1]), c => c.charCodeAt(0));
+
+        expect(gltf.asset.version).toBe('2.0');
+        expect(gltf.accessors[0].count).toBe(mesh.vertexCount());
+        expect(gltf.accessors[3].count).toBe(mesh.indices.length);
+        expect(bytes.length).toBe(gltf.buffers[0].byteLength);
+        // Ridge height ends up on the Y axis
+        expect(gltf.accessors[0].max[1]).toBeCloseTo(2.5);
+
+        const view = gltf.bufferViews[3];
+        const indices = new Uint32Array(bytes.buffer.slice(view.byteOffset, view.byteOffset + view.byteLength));
+        expect(Array.from(indices)).toEqual(mesh.indices);
+    });
+
+    it('should keep faces of merged meshes apart', () => {
+        const merged = RoofMesh.merge([mesh, mesh]);
+
+        expect(merged.triangleCount()).toBe(2 * mesh.triangleCount());
+        expect(Math.max(...merged.faceIds)).toBe(7);
+        expect(Math.max(...merged.indices)).toBe(2 * mesh.vertexCount() - 1);
+    });
+});
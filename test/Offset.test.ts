@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import { Offset } from '../src/lib/skeleton/Offset';
+import { Polygon } from '../src/lib/skeleton/Polygon';
+import { Vector } from '../src/lib/skeleton/Vector';
+
+function ring(...coordinates: [number, number][]): Vector[] {
+    return coordinates.map(([x, y]) => new Vector(x, y));
+}
+
+function area(polygon: Polygon): number {
+    return polygon.getRings().reduce((sum, ring) => sum + ring.area(), 0);
+}
+
+function square(): Polygon {
+    return new Polygon(ring([0, 0], [10, 0], [10, 10], [0, 10]));
+}
+
+describe('Offset', () => {
+    it('should shrink a rectangle by the distance', () => {
+        const [offset, ...rest] = Offset.inward(new Polygon(ring([0, 0], [8, 0], [8, 5], [0, 5])), 1);
+
+        expect(rest).toEqual([]);
+        expect(offset.vertices.map(v => [v.position.x, v.position.y]))
+            .toEqual(expect.arrayContaining([[1, 1], [7, 1], [7, 4], [1, 4]]));
+        expect(area(offset)).toBeCloseTo(18, 9);
+    });
+
+    it('should split a dumbbell into two polygons', () => {
+        // Two 6x6 squares joined by a 2 wide corridor
+        const dumbbell = new Polygon(ring(
+            [0, 0], [6, 0], [6, 2], [10, 2], [10, 0], [16, 0],
+            [16, 6], [10, 6], [10, 4], [6, 4], [6, 6], [0, 6]));
+        const pieces = Offset.inward(dumbbell, 1.5);
+
+        expect(pieces).toHaveLength(2);
+        pieces.forEach(piece => expect(area(piece)).toBeCloseTo(9, 9));
+    });
+
+    it('should shrink the outer ring and grow the holes', () => {
+        const polygon = square();
+        polygon.addHole(ring([4, 4], [4, 6], [6, 6], [6, 4]));
+        const [offset] = Offset.inward(polygon, 1);
+
+        expect(offset.holes).toHaveLength(1);
+        expect(area(offset)).toBeCloseTo(64 - 16, 9);
+    });
+
+    it('should vanish once the distance exceeds the inradius', () => {
+        expect(Offset.inward(square(), 5.5)).toEqual([]);
+    });
+
+    it('should grow a square with mitred, beveled and rounded corners', () => {
+        const mitre = Offset.outward(square(), 1);
+        const bevel = Offset.outward(square(), 1, { join: 'bevel' });
+        const round = Offset.outward(square(), 1, { join: 'round' });
+
+        expect(mitre).toHaveLength(1);
+        expect(area(mitre[0])).toBeCloseTo(144, 9);
+        expect(mitre[0].vertices).toHaveLength(4);
+
+        // A bevel joins the ends of the offset edges, cutting half of every mitre off
+        expect(area(bevel[0])).toBeCloseTo(144 - 4 * 0.5, 6);
+        expect(bevel[0].vertices).toHaveLength(8);
+
+        // Round joins circumscribe the quarter circles
+        expect(area(round[0])).toBeGreaterThan(140 + Math.PI);
+        expect(area(round[0])).toBeLessThan(140 + Math.PI + 0.05);
+        round[0].vertices.forEach(v => {
+            const corner = new Vector(Math.min(Math.max(v.position.x, 0), 10), Math.min(Math.max(v.position.y, 0), 10));
+            expect(v.position.minus(corner).length()).toBeGreaterThanOrEqual(1 - 1e-9);
+            expect(v.position.minus(corner).length()).toBeLessThan(1.01);
+        });
+    });
+
+    it('should grow the 8x5 rectangle by the area of each join', () => {
+        const rectangle = new Polygon(ring([0, 0], [8, 0], [8, 5], [0, 5]));
+        const grown = (join: 'mitre' | 'bevel' | 'round') => area(Offset.outward(rectangle, 1, { join })[0]);
+
+        // The rectangle and the strips along its sides, plus what each join adds at the four corners
+        expect(grown('mitre')).toBeCloseTo(40 + 26 + 4, 9);
+        expect(grown('bevel')).toBeCloseTo(40 + 26 + 2, 6);
+        expect(grown('round')).toBeGreaterThan(40 + 26 + Math.PI);
+        expect(grown('round')).toBeLessThan(40 + 26 + Math.PI + 0.05);
+    });
+
+    it('should bevel mitres longer than the limit', () => {
+        const spike = new Polygon(ring([0, 0], [10, 0], [0, 1]));
+        const limited = Offset.outward(spike, 1);
+        const unlimited = Offset.outward(spike, 1, { mitreLimit: Infinity });
+
+        expect(limited[0].vertices).toHaveLength(4);
+        expect(unlimited[0].vertices).toHaveLength(3);
+        expect(Math.max(...unlimited[0].vertices.map(v => v.position.x))).toBeGreaterThan(20);
+    });
+
+    it('should close a narrow entrance into a hole', () => {
+        // A 5x5 room inside an 11x11 square, reached through a 1 wide neck
+        const room = new Polygon(ring(
+            [0, 0], [11, 0], [11, 11], [6, 11], [6, 8], [8, 8],
+            [8, 3], [3, 3], [3, 8], [5, 8], [5, 11], [0, 11]));
+        const [offset, ...rest] = Offset.outward(room, 1);
+
+        expect(rest).toEqual([]);
+        expect(offset.holes).toHaveLength(1);
+        expect(offset.holes[0].area()).toBeCloseTo(-9, 9);
+        expect(area(offset)).toBeCloseTo(13 * 13 - 9, 9);
+    });
+
+    it('should shrink the holes of a polygon it grows', () => {
+        const polygon = square();
+        polygon.addHole(ring([3, 3], [3, 7], [7, 7], [7, 3]));
+        const [offset] = Offset.offset(polygon, -1);
+
+        expect(offset.holes).toHaveLength(1);
+        expect(area(offset)).toBeCloseTo(144 - 4, 9);
+    });
+
+    it('should reject negative and invalid distances', () => {
+        expect(() => Offset.inward(square(), -1)).toThrow();
+        expect(() => Offset.outward(square(), NaN)).toThrow();
+    });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import { PolygonNormalizer } from '../src/lib/skeleton/PolygonNormalizer';
+import { Polygon } from '../src/lib/skeleton/Polygon';
+import { Skeleton } from '../src/lib/skeleton/Skeleton';
+import { Vector } from '../src/lib/skeleton/Vector';
+
+function ring(...coordinates: [number, number][]): Vector[] {
+    return coordinates.map(([x, y]) => new Vector(x, y));
+}
+
+function coordinates(polygon: Polygon): [number, number][] {
+    return polygon.vertices.map(v => [v.position.x, v.position.y]);
+}
+
+describe('PolygonNormalizer', () => {
+    beforeAll(() => {
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    afterAll(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('should leave a clean polygon unchanged', () => {
+        const polygon = new Polygon(ring([0, 0], [8, 0], [8, 5], [0, 5]));
+        const { polygon: normalized, changes } = PolygonNormalizer.normalize(polygon, { collinear: 'remove' });
+
+        expect(changes).toEqual([]);
+        expect(coordinates(normalized)).toEqual(coordinates(polygon));
+    });
+
+    it('should merge repeated points, including a closing point', () => {
+        const polygon = new Polygon(ring([0, 0], [8, 0], [8, 0], [8, 5], [0, 5], [0, 0]));
+        const { polygon: normalized, changes } = PolygonNormalizer.normalize(polygon);
+
+        expect(coordinates(normalized)).toEqual([[0, 0], [8, 0], [8, 5], [0, 5]]);
+        expect(changes).toEqual([
+            { kind: 'merged', ring: 0, index: 2, into: 1 },
+            { kind: 'merged', ring: 0, index: 5, into: 0 }
+        ]);
+    });
+
+    it('should merge points within the tolerance', () => {
+        const polygon = new Polygon(ring([0, 0], [8, 0], [8.001, 0.001], [8, 5], [0, 5]));
+        const { polygon: normalized, changes } = PolygonNormalizer.normalize(polygon, { tolerance: 0.01 });
+
+        expect(normalized.vertices).toHaveLength(4);
+        expect(changes).toEqual([{ kind: 'merged', ring: 0, index: 2, into: 1 }]);
+    });
+
+    it('should remove or keep collinear vertices per policy', () => {
+        const polygon = new Polygon(ring([0, 0], [4, 0], [8, 0], [8, 5], [0, 5]));
+
+        const removed = PolygonNormalizer.normalize(polygon, { collinear: 'remove' });
+        expect(coordinates(removed.polygon)).toEqual([[0, 0], [8, 0], [8, 5], [0, 5]]);
+        expect(removed.changes).toEqual([{ kind: 'removed-collinear', ring: 0, index: 1 }]);
+
+        const kept = PolygonNormalizer.normalize(polygon, { collinear: 'keep' });
+        expect(kept.polygon.vertices).toHaveLength(5);
+        expect(kept.changes).toEqual([]);
+    });
+
+    it('should keep a collinear vertex between edges of different weights', () => {
+        const polygon = new Polygon(ring([0, 0], [4, 0], [8, 0], [8, 5], [0, 5]), [1, 0.5, 1, 1, 1]);
+        const { polygon: normalized, changes } = PolygonNormalizer.normalize(polygon, { collinear: 'remove' });
+
+        expect(normalized.vertices).toHaveLength(5);
+        expect(changes).toEqual([]);
+    });
+
+    it('should reverse clockwise outer rings and counterclockwise holes, keeping the weights on their edges', () => {
+        const polygon = new Polygon(ring([0, 0], [0, 10], [10, 10], [10, 0]), [1, 0, 1, 0.5]);
+        polygon.addHole(ring([3, 3], [6, 3], [6, 6], [3, 6]));
+        const { polygon: normalized, changes } = PolygonNormalizer.normalize(polygon);
+
+        expect(changes).toEqual([{ kind: 'reversed', ring: 0 }, { kind: 'reversed', ring: 1 }]);
+        expect(normalized.hasValidOrientation()).toBe(true);
+        expect(coordinates(normalized)).toEqual([[10, 0], [10, 10], [0, 10], [0, 0]]);
+
+        // The gable ran from (0,10) to (10,10), the slow edge from (10,0) to (0,0)
+        const weightOf = (from: [number, number]) =>
+            normalized.edges.find(e => e.v2.position.x === from[0] && e.v2.position.y === from[1])!.weight;
+        expect(weightOf([0, 10])).toBe(0);
+        expect(weightOf([10, 0])).toBe(0.5);
+    });
+
+    it('should leave the input polygon untouched', () => {
+        const polygon = new Polygon(ring([0, 0], [0, 5], [8, 5], [8, 0], [0, 0]));
+        PolygonNormalizer.normalize(polygon);
+
+        expect(polygon.vertices).toHaveLength(5);
+        expect(polygon.isClockwise()).toBe(true);
+    });
+
+    it('should reject rings that collapse', () => {
+        const polygon = new Polygon(ring([0, 0], [0, 0], [5, 5], [5, 5]));
+        expect(() => PolygonNormalizer.normalize(polygon)).toThrow('fewer than 3 distinct points');
+
+        const flat = new Polygon(ring([0, 0], [5, 0], [10, 0]));
+        expect(() => PolygonNormalizer.normalize(flat)).toThrow('encloses no area');
+    });
+
+    it('should let the skeleton build from a clockwise ring with repeated points', () => {
+        const polygon = new Polygon(ring([0, 0], [0, 5], [0, 5], [8, 5], [8, 0], [0, 0]));
+        expect(() => Skeleton.build(polygon)).toThrow();
+
+        const skeleton = Skeleton.build(polygon, { normalize: true });
+        expect(skeleton.getSkeletonEdges()).toHaveLength(5);
+        expect(skeleton.getNormalizationChanges().map(change => change.kind))
+            .toEqual(['merged', 'merged', 'reversed']);
+    });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { PolygonValidator } from '../src/lib/skeleton/PolygonValidator';
+import { Polygon } from '../src/lib/skeleton/Polygon';
+import { Vector } from '../src/lib/skeleton/Vector';
+
+function ring(...coordinates: [number, number][]): Vector[] {
+    return coordinates.map(([x, y]) => new Vector(x, y));
+}
+
+describe('PolygonValidator', () => {
+    it('should find no issues in a valid polygon with a hole', () => {
+        const polygon = new Polygon(ring([0, 0], [10, 0], [10, 10], [0, 10]));
+        polygon.addHole(ring([3, 3], [3, 6], [6, 6], [6, 3]));
+
+        expect(PolygonValidator.validate(polygon)).toEqual([]);
+    });
+
+    it('should locate the crossing of a bow tie', () => {
+        const polygon = new Polygon(ring([0, 0], [4, 4], [4, 0], [0, 4]));
+        const issues = PolygonValidator.validate(polygon);
+        const crossing = issues.find(issue => issue.kind === 'self-intersection');
+
+        expect(crossing).toMatchObject({ ring: 0, edge: 0, other: { ring: 0, edge: 2 } });
+        expect(crossing!.point).toEqual(new Vector(2, 2));
+        expect(crossing!.message).toContain('(2, 2)');
+    });
+
+    it('should locate a hole crossing the outer ring', () => {
+        const polygon = new Polygon(ring([0, 0], [10, 0], [10, 10], [0, 10]));
+        polygon.addHole(ring([8, 4], [8, 6], [12, 6], [12, 4]));
+        const issues = PolygonValidator.validate(polygon);
+
+        expect(issues.map(issue => issue.kind)).toEqual(['self-intersection', 'self-intersection']);
+        expect(issues.map(issue => issue.point)).toEqual(expect.arrayContaining([new Vector(10, 4), new Vector(10, 6)]));
+        expect(issues.map(issue => issue.kind === 'self-intersection' && [issue.ring, issue.other.ring].sort()))
+            .toEqual([[0, 1], [0, 1]]);
+    });
+
+    it('should report a zero-length edge without calling it a crossing', () => {
+        const polygon = new Polygon(ring([0, 0], [8, 0], [8, 0], [8, 5], [0, 5]));
+        const issues = PolygonValidator.validate(polygon);
+
+        expect(issues).toHaveLength(1);
+        expect(issues[0]).toMatchObject({ kind: 'zero-length-edge', ring: 0, edge: 1, point: new Vector(8, 0) });
+    });
+
+    it('should report the tip of a spike', () => {
+        const polygon = new Polygon(ring([0, 0], [8, 0], [8, 5], [8, 8], [8, 6], [0, 5]));
+        const issues = PolygonValidator.validate(polygon);
+
+        expect(issues.filter(issue => issue.kind === 'spike'))
+            .toEqual([expect.objectContaining({ ring: 0, vertex: 3, point: new Vector(8, 8) })]);
+    });
+
+    it('should name the rings with the wrong orientation', () => {
+        const polygon = new Polygon(ring([0, 0], [0, 10], [10, 10], [10, 0]));
+        polygon.addHole(ring([3, 3], [6, 3], [6, 6], [3, 6]));
+        const issues = PolygonValidator.validate(polygon);
+
+        expect(issues.map(issue => [issue.kind, issue.ring])).toEqual([['orientation', 0], ['orientation', 1]]);
+        expect(issues[0].message).toContain('counterclockwise');
+    });
+
+    it('should report holes outside the outer ring', () => {
+        const polygon = new Polygon(ring([0, 0], [10, 0], [10, 10], [0, 10]));
+        polygon.addHole(ring([20, 3], [20, 6], [23, 6], [23, 3]));
+        const issues = PolygonValidator.validate(polygon);
+
+        expect(issues).toHaveLength(1);
+        expect(issues[0]).toMatchObject({ kind: 'misplaced-hole', ring: 1, point: new Vector(20, 3) });
+    });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { Predicates } from '../src/lib/skeleton/Predicates';
+import { Polygon } from '../src/lib/skeleton/Polygon';
+import { Vector } from '../src/lib/skeleton/Vector';
+
+describe('Predicates', () => {
+    it('should give the turn direction of three points', () => {
+        const a = new Vector(0, 0);
+        const b = new Vector(4, 0);
+
+        expect(Predicates.orient2d(a, b, new Vector(2, 1))).toBeGreaterThan(0);
+        expect(Predicates.orient2d(a, b, new Vector(2, -1))).toBeLessThan(0);
+        expect(Predicates.orient2d(a, b, new Vector(9, 0))).toBe(0);
+    });
+
+    it('should classify nearly collinear points exactly', () => {
+        // Points a few ulps off the line y = x, where plain floating point
+        // arithmetic answers inconsistently
+        const q = new Vector(12, 12);
+        const r = new Vector(24, 24);
+        for (let i = 0; i < 16; i++) {
+            for (let j = 0; j < 16; j++) {
+                const p = new Vector(0.5 + i * 2 ** -53, 0.5 + j * 2 ** -53);
+                expect(Math.sign(Predicates.orient2d(p, q, r))).toBe(Math.sign(j - i));
+                expect(Math.sign(Predicates.orient2d(q, r, p))).toBe(Math.sign(j - i));
+            }
+        }
+    });
+
+    it('should test points against the circle through three others', () => {
+        const a = new Vector(1, 0);
+        const b = new Vector(0, 1);
+        const c = new Vector(-1, 0);
+
+        expect(Predicates.incircle(a, b, c, new Vector(0, 0))).toBeGreaterThan(0);
+        expect(Predicates.incircle(a, b, c, new Vector(2, 2))).toBeLessThan(0);
+        expect(Predicates.incircle(a, b, c, new Vector(0, -1))).toBe(0);
+        expect(Predicates.incircle(a, b, c, new Vector(0, -1 + 2 ** -52))).toBeGreaterThan(0);
+    });
+
+    it('should intersect closed segments', () => {
+        const v = (x: number, y: number) => new Vector(x, y);
+
+        expect(Predicates.segmentsIntersect(v(0, 0), v(2, 2), v(0, 2), v(2, 0))).toBe(true);
+        expect(Predicates.segmentsIntersect(v(0, 0), v(2, 0), v(1, 0), v(1, 3))).toBe(true);
+        expect(Predicates.segmentsIntersect(v(0, 0), v(2, 0), v(1, 0), v(3, 0))).toBe(true);
+        expect(Predicates.segmentsIntersect(v(0, 0), v(2, 0), v(3, 0), v(4, 0))).toBe(false);
+        expect(Predicates.segmentsIntersect(v(0, 0), v(2, 0), v(0, 1), v(2, 1e-300))).toBe(false);
+    });
+
+    it('should detect a vertex touching a far edge at any offset', () => {
+        for (const offset of [0, 1e6, 2 ** 40]) {
+            const touching = new Polygon([
+                [0, 0], [4, 0], [4, 4], [2, 0]
+            ].map(([x, y]) => new Vector(x + offset, y + offset)));
+            const clear = new Polygon([
+                [0, 0], [4, 0], [4, 4], [2, 0.5]
+            ].map(([x, y]) => new Vector(x + offset, y + offset)));
+
+            expect(touching.isSimple()).toBe(false);
+            expect(clear.isSimple()).toBe(true);
+        }
+    });
+});
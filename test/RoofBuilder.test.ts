@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import { RoofBuilder } from '../src/lib/roof/RoofBuilder';
+import { Skeleton } from '../src/lib/skeleton/Skeleton';
+import { Polygon } from '../src/lib/skeleton/Polygon';
+import { Angle } from '../src/lib/skeleton/Angle';
+import { TEST_GEOMETRIES } from './TestGeometries';
+
+function polygonOf(geometryKey: string): Polygon {
+    return new Polygon(Object.values(TEST_GEOMETRIES[geometryKey].points));
+}
+
+describe('RoofBuilder', () => {
+    beforeAll(() => {
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    afterAll(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('should lift the ridge of the rectangle to eventTime * tan(pitch)', () => {
+        const mesh = RoofBuilder.build(Skeleton.build(polygonOf('rectangle')), Angle.fromDegrees(45));
+
+        expect(mesh.triangleCount()).toBe(6);
+        expect(mesh.bounds().max[2]).toBeCloseTo(2.5);
+        expect(mesh.bounds().min[2]).toBeCloseTo(0);
+    });
+
+    it('should give every triangle the normal of its roof plane', () => {
+        const mesh = RoofBuilder.build(Skeleton.build(polygonOf('rectangle')), Angle.fromDegrees(30));
+
+        for (let t = 0; t < mesh.triangleCount(); t++) {
+            const [a, b, c] = mesh.getTriangle(t).map(i => mesh.getPosition(i));
+            const u = [b[0] - a[0], b[1] - a[1], b[2] - a[2]];
+            const v = [c[0] - a[0], c[1] - a[1], c[2] - a[2]];
+            const cross = [u[1] * v[2] - u[2] * v[1], u[2] * v[0] - u[0] * v[2], u[0] * v[1] - u[1] * v[0]];
+            const length = Math.hypot(...cross);
+            const normal = mesh.getNormal(mesh.getTriangle(t)[0]);
+
+            // Normals point upwards and tilt by the pitch
+            expect(normal[2]).toBeCloseTo(Math.cos(Math.PI / 6));
+            cross.forEach((value, i) => expect(value / length).toBeCloseTo(normal[i]));
+        }
+    });
+
+    it('should tag triangles with their face and cover the footprint', () => {
+        const polygon = polygonOf('complexPolygon');
+        const mesh = RoofBuilder.build(Skeleton.build(polygon), Angle.fromDegrees(45));
+
+        let planArea = 0;
+        for (let t = 0; t < mesh.triangleCount(); t++) {
+            const [a, b, c] = mesh.getTriangle(t).map(i => mesh.getPosition(i));
+            planArea += ((b[0] - a[0]) * (c[1] - a[1]) - (b[1] - a[1]) * (c[0] - a[0])) / 2;
+        }
+
+        expect(new Set(mesh.faceIds)).toEqual(new Set([0, 1, 2, 3, 4, 5]));
+        expect(planArea).toBeCloseTo(polygon.area());
+    });
+
+    it('should raise vertical walls under gable edges and run the ridge up to them', () => {
+        const polygon = polygonOf('rectangle');
+        polygon.setGable(1);
+        polygon.setGable(3);
+        const mesh = RoofBuilder.build(Skeleton.build(polygon), Angle.fromDegrees(45));
+
+        expect(mesh.gableFaceIds).toEqual([1, 3]);
+        expect(mesh.triangleCount()).toBe(6);
+        expect(mesh.bounds().max[2]).toBeCloseTo(2.5);
+
+        for (let t = 0; t < mesh.triangleCount(); t++) {
+            const triangle = mesh.getTriangle(t);
+            const [a, b, c] = triangle.map(i => mesh.getPosition(i));
+            const normal = mesh.getNormal(triangle[0]);
+
+            if (mesh.gableFaceIds.includes(mesh.faceIds[t])) {
+                // Walls stand on the edge, face outwards and peak at the ridge
+                expect(normal[2]).toBeCloseTo(0);
+                expect(Math.abs(normal[0])).toBeCloseTo(1);
+                expect(new Set([a[0], b[0], c[0]]).size).toBe(1);
+                expect(Math.max(a[2], b[2], c[2])).toBeCloseTo(2.5);
+            } else {
+                expect(normal[2]).toBeGreaterThan(0);
+            }
+        }
+    });
+
+    it('should reject pitches outside (0, 90) degrees', () => {
+        const skeleton = Skeleton.build(polygonOf('rectangle'));
+
+        expect(() => RoofBuilder.build(skeleton, Angle.fromDegrees(0))).toThrow();
+        expect(() => RoofBuilder.build(skeleton, Angle.fromDegrees(90))).toThrow();
+    });
+});
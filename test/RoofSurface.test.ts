@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { RoofSurface } from '../src/lib/roof/RoofSurface';
+import { Skeleton } from '../src/lib/skeleton/Skeleton';
+import { Polygon } from '../src/lib/skeleton/Polygon';
+import { Angle } from '../src/lib/skeleton/Angle';
+import { Vector } from '../src/lib/skeleton/Vector';
+
+function rectangle(): Polygon {
+    return new Polygon([new Vector(0, 0), new Vector(8, 0), new Vector(8, 5), new Vector(0, 5)]);
+}
+
+describe('RoofSurface', () => {
+    it('should find the face, arrival time and height under a point', () => {
+        const surface = RoofSurface.build(Skeleton.build(rectangle()));
+
+        const eave = surface.query(new Vector(4, 1), Angle.fromDegrees(45))!;
+        expect(eave.faceId).toBe(0);
+        expect(eave.time).toBeCloseTo(1, 12);
+        expect(eave.height).toBeCloseTo(1, 12);
+        expect(eave.downslope.x).toBeCloseTo(0, 12);
+        expect(eave.downslope.y).toBeCloseTo(-1, 12);
+
+        const hip = surface.query(new Vector(1, 2.5))!;
+        expect(hip.faceId).toBe(3);
+        expect(hip.time).toBeCloseTo(1, 12);
+        expect(hip.height).toBeUndefined();
+        expect(hip.downslope.x).toBeCloseTo(-1, 12);
+    });
+
+    it('should reach the ridge at the time of the last event', () => {
+        const surface = RoofSurface.build(Skeleton.build(rectangle()));
+        const ridge = surface.query(new Vector(4, 2.5), Angle.fromDegrees(30))!;
+
+        expect(ridge.time).toBeCloseTo(2.5, 12);
+        expect(ridge.height).toBeCloseTo(2.5 * Math.tan(Math.PI / 6), 12);
+    });
+
+    it('should return nothing outside the footprint and inside holes', () => {
+        const polygon = new Polygon([new Vector(0, 0), new Vector(10, 0), new Vector(10, 10), new Vector(0, 10)]);
+        polygon.addHole([new Vector(4, 4), new Vector(4, 6), new Vector(6, 6), new Vector(6, 4)]);
+        const surface = RoofSurface.build(Skeleton.build(polygon));
+
+        expect(surface.query(new Vector(-1, 5))).toBeNull();
+        expect(surface.query(new Vector(5, 5))).toBeNull();
+        expect(surface.query(new Vector(5, 3))!.time).toBeCloseTo(1, 12);
+    });
+
+    it('should divide by the weight of the face edge', () => {
+        const slow = new Polygon(rectangle().vertices.map(v => v.position), [0.5, 1, 1, 1]);
+        const sample = RoofSurface.build(Skeleton.build(slow)).query(new Vector(4, 0.5))!;
+
+        expect(sample.faceId).toBe(0);
+        expect(sample.time).toBeCloseTo(1, 12);
+    });
+
+    it('should match the distance to the nearest edge line on a convex footprint', () => {
+        const count = 64;
+        const points = Array.from({ length: count }, (_, i) =>
+            new Vector(30 * Math.cos(2 * Math.PI * i / count), 20 * Math.sin(2 * Math.PI * i / count)));
+        const polygon = new Polygon(points);
+        const surface = RoofSurface.build(Skeleton.build(polygon, { snapshots: false }));
+
+        let seed = 7;
+        const random = () => (seed = (seed * 16807) % 2147483647) / 2147483647;
+        const queries = Array.from({ length: 2000 }, () => new Vector(40 * random() - 20, 26 * random() - 13));
+        const samples = surface.queryAll(queries);
+
+        queries.forEach((point, i) => {
+            const distances = polygon.edges.map(edge => point.minus(edge.v1.position).dot(edge.normal()));
+            if (Math.min(...distances) < 0) {
+                expect(samples[i]).toBeNull();
+            } else {
+                expect(samples[i]!.time).toBeCloseTo(Math.min(...distances), 9);
+            }
+        });
+    });
+});
@@ -0,0 +1,125 @@
+import { bench, describe } from 'vitest';
+import { Skeleton } from '../src/lib/skeleton/Skeleton';
+import { Polygon } from '../src/lib/skeleton/Polygon';
+import { EventQueue } from '../src/lib/skeleton/EventQueue';
+import { EdgeEvent } from '../src/lib/skeleton/EdgeEvent';
+import { Edge } from '../src/lib/skeleton/Edge';
+import { Vertex } from '../src/lib/skeleton/Vertex';
+import { Vector } from '../src/lib/skeleton/Vector';
+import { Event as CustomEvent } from '../src/lib/skeleton/Event';
+import { RoofSurface } from '../src/lib/roof/RoofSurface';
+
+// Seeded so that every run measures the same footprints
+function random(seed: number): () => number {
+    return () => (seed = (seed * 16807) % 2147483647) / 2147483647;
+}
+
+// Convex footprint: an ellipse with jittered vertex angles
+function ellipse(count: number): Polygon {
+    const next = random(count);
+    const points: Vector[] = [];
+    for (let i = 0; i < count; i++) {
+        const angle = (2 * Math.PI * (i + 0.8 * next())) / count;
+        points.push(new Vector(300 * Math.cos(angle), 200 * Math.sin(angle)));
+    }
+    return new Polygon(points);
+}
+
+// Every other vertex is reflex
+function star(count: number): Polygon {
+    const next = random(count);
+    const points: Vector[] = [];
+    for (let i = 0; i < count; i++) {
+        const angle = (2 * Math.PI * i) / count;
+        const radius = i % 2 === 0 ? 100 : 80 + 10 * next();
+        points.push(new Vector(radius * Math.cos(angle), radius * Math.sin(angle)));
+    }
+    return new Polygon(points);
+}
+
+// Detailed outline: a rectangle whose sides carry small rectangular steps,
+// as in surveyed building footprints. Every step adds two reflex vertices
+function notched(count: number): Polygon {
+    const next = random(count);
+    const corners = [new Vector(0, 0), new Vector(1000, 0), new Vector(1000, 600), new Vector(0, 600)];
+    const steps = Math.round(count / 16);
+    const points: Vector[] = [];
+    corners.forEach((start, i) => {
+        const side = corners[(i + 1) % 4].minus(start);
+        const along = side.scale(1 / steps);
+        const outward = new Vector(along.y, -along.x).normalize();
+        points.push(start);
+        for (let j = 0; j < steps; j++) {
+            const from = start.plus(along.scale(j + 0.1));
+            const to = start.plus(along.scale(j + 0.9));
+            const depth = outward.scale(1 + 3 * next());
+            points.push(from, from.plus(depth), to.plus(depth), to);
+        }
+    });
+    return new Polygon(points);
+}
+
+// The linear-scan queue the heap replaced, kept as a baseline
+class SortedQueue {
+    private events: CustomEvent[] = [];
+
+    add(event: CustomEvent): void {
+        const index = this.events.findIndex(e => e.time > event.time);
+        this.events.splice(index === -1 ? this.events.length : index, 0, event);
+    }
+
+    poll(): CustomEvent | undefined {
+        return this.events.shift();
+    }
+}
+
+function events(count: number): EdgeEvent[] {
+    const next = random(count);
+    const edge = new Edge(new Vertex(new Vector(0, 0)), new Vertex(new Vector(1, 0)));
+    return Array.from({ length: count }, () => new EdgeEvent(next() * 100, edge));
+}
+
+describe('Skeleton.build', () => {
+    const footprints: [string, Polygon][] = [
+        ['convex 1k', ellipse(1000)],
+        ['convex 10k', ellipse(10000)],
+        ['convex 50k', ellipse(50000)],
+        ['star 1k', star(1000)],
+        ['star 10k', star(10000)],
+        ['notched 1k', notched(1000)],
+        ['notched 10k', notched(10000)],
+        ['notched 50k', notched(50000)],
+    ];
+
+    for (const [name, polygon] of footprints) {
+        bench(name, () => {
+            Skeleton.build(polygon, { snapshots: false });
+        }, { iterations: 1, warmupIterations: 0, warmupTime: 0, time: 0 });
+    }
+});
+
+describe('EventQueue', () => {
+    const pending = events(20000);
+
+    bench('binary heap, 20k events', () => {
+        const queue = new EventQueue();
+        pending.forEach(event => queue.add(event));
+        while (queue.poll()) { /* drain */ }
+    }, { iterations: 3, time: 0 });
+
+    bench('sorted array, 20k events', () => {
+        const queue = new SortedQueue();
+        pending.forEach(event => queue.add(event));
+        while (queue.poll()) { /* drain */ }
+    }, { iterations: 3, time: 0 });
+});
+
+describe('RoofSurface.query', () => {
+    const surface = RoofSurface.build(Skeleton.build(star(1000), { snapshots: false }));
+    const next = random(1);
+    const points = Array.from({ length: 10000 }, () => new Vector(200 * next() - 100, 200 * next() - 100));
+
+    bench('star 1k, 10k points', () => {
+        points.forEach(point => surface.query(point));
+    }, { iterations: 3, time: 0 });
+});
@@ -0,0 +1,267 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import { Skeleton } from '../src/lib/skeleton/Skeleton';
+import { Polygon } from '../src/lib/skeleton/Polygon';
+import { Edge } from '../src/lib/skeleton/Edge';
+import { Vector } from '../src/lib/skeleton/Vector';
+import { TEST_GEOMETRIES } from './TestGeometries';
+
+function polygonOf(geometryKey: string): Polygon {
+    return new Polygon(Object.values(TEST_GEOMETRIES[geometryKey].points));
+}
+
+function format(edge: Edge): string {
+    const point = (v: Edge['v1']) => `(${v.position.x.toFixed(2)},${v.position.y.toFixed(2)})`;
+    return `${point(edge.v1)}->${point(edge.v2)}`;
+}
+
+describe('Skeleton', () => {
+    beforeAll(() => {
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    afterAll(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('should build the hip roof of the 8x5 rectangle', () => {
+        const skeleton = Skeleton.build(polygonOf('rectangle'));
+        const edges = skeleton.getSkeletonEdges().map(format);
+
+        expect(edges).toHaveLength(5);
+        expect(edges).toContain('(0.00,0.00)->(2.50,2.50)');
+        expect(edges).toContain('(0.00,5.00)->(2.50,2.50)');
+        expect(edges).toContain('(8.00,0.00)->(5.50,2.50)');
+        expect(edges).toContain('(8.00,5.00)->(5.50,2.50)');
+        expect(edges).toContain('(5.50,2.50)->(2.50,2.50)');
+    });
+
+    it('should resolve the reflex vertex of the complex polygon', () => {
+        const skeleton = Skeleton.build(polygonOf('complexPolygon'));
+        const edges = skeleton.getSkeletonEdges().map(format);
+
+        expect(edges).toEqual(expect.arrayContaining([
+            '(0.00,70.00)->(20.00,50.00)',
+            '(0.00,30.00)->(20.00,50.00)',
+            '(20.00,50.00)->(60.00,50.00)',
+            '(40.00,30.00)->(60.00,50.00)',
+            '(60.00,50.00)->(70.00,40.00)',
+            '(100.00,70.00)->(70.00,40.00)'
+        ]));
+        expect(edges).toHaveLength(9);
+    });
+
+    it('should shift the ridge towards the slower eaves of a weighted footprint', () => {
+        // The bottom eave moves twice as fast, like a roof plane with half the pitch
+        const square = new Polygon(
+            [new Vector(0, 0), new Vector(4, 0), new Vector(4, 4), new Vector(0, 4)],
+            [2, 1, 1, 1]
+        );
+        const skeleton = Skeleton.build(square);
+        const edges = skeleton.getSkeletonEdges().map(format);
+
+        expect(edges).toHaveLength(5);
+        expect(edges).toContain('(0.00,0.00)->(1.33,2.67)');
+        expect(edges).toContain('(4.00,0.00)->(2.67,2.67)');
+        expect(edges).toContain('(2.67,2.67)->(1.33,2.67)');
+    });
+
+    it('should reject weights that do not match the edges', () => {
+        const points = Object.values(TEST_GEOMETRIES['rectangle'].points);
+
+        expect(() => new Polygon(points, [1, 1, 1])).toThrow();
+        expect(() => new Polygon(points, [1, 1, -1, 1])).toThrow();
+    });
+
+    it('should join the ridges of an H at single nodes', () => {
+        // Both legs and the crossbar are 2 wide, so at t = 1 the reflex
+        // corners, the leg ridges and the crossbar ridge all meet
+        const h = new Polygon([
+            [0, 0], [2, 0], [2, 2], [4, 2], [4, 0], [6, 0],
+            [6, 6], [4, 6], [4, 4], [2, 4], [2, 6], [0, 6]
+        ].map(([x, y]) => new Vector(x, y)));
+        const skeleton = Skeleton.build(h);
+        const edges = skeleton.getSkeletonEdges().map(format);
+
+        expect(edges).toHaveLength(17);
+        expect(edges).toContain('(1.00,3.00)->(5.00,3.00)');
+        expect(edges).toContain('(2.00,2.00)->(1.00,3.00)');
+        expect(edges).toContain('(2.00,4.00)->(1.00,3.00)');
+        expect(skeleton.getFaces().reduce((sum, face) => sum + face.area(), 0)).toBeCloseTo(h.area());
+    });
+
+    it('should meet two reflex vertices of a T at one node', () => {
+        const t = new Polygon([
+            [0, 0], [2, 0], [2, 4], [4, 4], [4, 6], [-2, 6], [-2, 4], [0, 4]
+        ].map(([x, y]) => new Vector(x, y)));
+        const edges = Skeleton.build(t).getSkeletonEdges().map(format);
+
+        expect(edges).toHaveLength(11);
+        expect(edges).toEqual(expect.arrayContaining([
+            '(2.00,4.00)->(1.00,5.00)',
+            '(0.00,4.00)->(1.00,5.00)',
+            '(1.00,1.00)->(1.00,5.00)',
+            '(-1.00,5.00)->(1.00,5.00)',
+            '(3.00,5.00)->(1.00,5.00)'
+        ]));
+    });
+
+    it('should carry collinear vertices into the ridge', () => {
+        const cases: [number[][], number][] = [
+            [[[0, 0], [4, 0], [8, 0], [8, 5], [0, 5]], 7],
+            [[[0, 0], [8, 0], [8, 5], [4, 5], [0, 5]], 7],
+            [[[0, 0], [4, 0], [4, 2], [3, 2], [2, 2], [1, 2], [1, 5], [0, 5]], 12],
+            [[[0, 0], [1, 0], [2, 0], [3, 0], [5, 0], [8, 0], [8, 5], [7.5, 5], [6, 5], [4, 5], [0, 5]], 19]
+        ];
+
+        for (const [points, count] of cases) {
+            const polygon = new Polygon(points.map(([x, y]) => new Vector(x, y)));
+            const skeleton = Skeleton.build(polygon);
+            const faces = skeleton.getFaces();
+
+            expect(skeleton.getSkeletonEdges()).toHaveLength(count);
+            expect(faces).toHaveLength(points.length);
+            expect(faces.reduce((sum, face) => sum + face.area(), 0)).toBeCloseTo(polygon.area());
+        }
+    });
+
+    it('should give the same skeleton at any scale and offset', () => {
+        const h = [
+            [0, 0], [2, 0], [2, 2], [4, 2], [4, 0], [6, 0],
+            [6, 6], [4, 6], [4, 4], [2, 4], [2, 6], [0, 6]
+        ];
+
+        for (const [scale, offset] of [[1e-4, 0], [1e5, 0], [1, 1e6], [0.1, 5e5]]) {
+            const polygon = new Polygon(h.map(([x, y]) => new Vector(x * scale + offset, y * scale + offset)));
+            const skeleton = Skeleton.build(polygon);
+            const area = skeleton.getFaces().reduce((sum, face) => sum + face.area(), 0);
+
+            expect(skeleton.getSkeletonEdges()).toHaveLength(17);
+            expect(area / polygon.area()).toBeCloseTo(1, 6);
+        }
+    });
+
+    it('should extend the ridge to a gable end', () => {
+        const polygon = polygonOf('rectangle');
+        polygon.setGable(1);
+        const edges = Skeleton.build(polygon).getSkeletonEdges().map(format);
+
+        expect(edges).toContain('(8.00,0.00)->(8.00,2.50)');
+        expect(edges).toContain('(8.00,2.50)->(2.50,2.50)');
+        expect(() => polygon.setGable(4)).toThrow();
+    });
+
+    it('should restore the weight of a gable turned back into a hip', () => {
+        const points = Object.values(TEST_GEOMETRIES['rectangle'].points);
+        const polygon = new Polygon(points, [2, 1, 1, 1]);
+        polygon.setGable(0);
+        polygon.setGable(0);
+        expect(polygon.clone().edges[0].weight).toBe(0);
+
+        polygon.setGable(0, false);
+        polygon.setGable(1, false);
+
+        expect(polygon.edges.map(edge => edge.weight)).toEqual([2, 1, 1, 1]);
+        expect(Skeleton.build(polygon).getSkeletonEdges().map(format))
+            .toEqual(Skeleton.build(new Polygon(points, [2, 1, 1, 1])).getSkeletonEdges().map(format));
+    });
+
+    it('should propagate hole wavefronts around a courtyard', () => {
+        const frame = new Polygon([new Vector(0, 0), new Vector(10, 0), new Vector(10, 10), new Vector(0, 10)]);
+        frame.addHole([new Vector(3, 3), new Vector(3, 7), new Vector(7, 7), new Vector(7, 3)]);
+
+        const skeleton = Skeleton.build(frame);
+        const edges = skeleton.getSkeletonEdges().map(format);
+
+        expect(edges).toHaveLength(12);
+        expect(edges).toEqual(expect.arrayContaining([
+            '(0.00,0.00)->(1.50,1.50)',
+            '(3.00,3.00)->(1.50,1.50)',
+            '(10.00,10.00)->(8.50,8.50)',
+            '(7.00,7.00)->(8.50,8.50)',
+            '(1.50,1.50)->(8.50,1.50)'
+        ]));
+    });
+
+    it('should reject holes with the wrong orientation or outside the outer ring', () => {
+        const outer = () => new Polygon([new Vector(0, 0), new Vector(10, 0), new Vector(10, 10), new Vector(0, 10)]);
+
+        const counterclockwiseHole = outer();
+        counterclockwiseHole.addHole([new Vector(3, 3), new Vector(7, 3), new Vector(7, 7), new Vector(3, 7)]);
+        expect(() => Skeleton.build(counterclockwiseHole)).toThrow(/orientation|counterclockwise/);
+
+        const outsideHole = outer();
+        outsideHole.addHole([new Vector(13, 3), new Vector(13, 7), new Vector(17, 7), new Vector(17, 3)]);
+        expect(() => Skeleton.build(outsideHole)).toThrow(/inside/);
+
+        const crossingHole = outer();
+        crossingHole.addHole([new Vector(8, 3), new Vector(8, 7), new Vector(12, 7), new Vector(12, 3)]);
+        expect(() => Skeleton.build(crossingHole)).toThrow(/self-intersections/);
+    });
+
+    it('should store a wavefront state for every processed event', () => {
+        const skeleton = Skeleton.build(polygonOf('rectangle'));
+        const polygons = skeleton.getWavefrontPolygons();
+
+        expect(polygons.length).toBeGreaterThan(1);
+        expect(polygons[0].vertices.map(v => v.position)).toEqual(
+            Object.values(TEST_GEOMETRIES['rectangle'].points)
+        );
+    });
+
+    it('should skip the wavefront states when snapshots are off', () => {
+        const full = Skeleton.build(polygonOf('complexPolygon'));
+        const lean = Skeleton.build(polygonOf('complexPolygon'), { snapshots: false });
+
+        expect(lean.getWavefrontPolygons()).toHaveLength(1);
+        expect(lean.getSkeletonEdges().map(format)).toEqual(full.getSkeletonEdges().map(format));
+    });
+
+    it('should leave the input polygon untouched', () => {
+        const polygon = polygonOf('complexPolygon');
+        const before = polygon.vertices.map(v => v.position.clone());
+
+        Skeleton.build(polygon);
+
+        expect(polygon.vertices.map(v => v.position)).toEqual(before);
+    });
+
+    it('should step through the events to the same skeleton', () => {
+        const built = Skeleton.build(polygonOf('complexPolygon'));
+        const stepped = Skeleton.start(polygonOf('complexPolygon'));
+        const pending = stepped.getPendingEvents();
+
+        expect(pending.length).toBeGreaterThan(0);
+        expect(pending.map(e => e.time)).toEqual([...pending.map(e => e.time)].sort((a, b) => a - b));
+        expect(stepped.getPendingCount()).toBe(pending.length);
+        expect(stepped.getPendingEvents(3)).toEqual(pending.slice(0, 3));
+        expect(stepped.getSkeletonEdges()).toHaveLength(0);
+
+        const steps = [];
+        for (let step = stepped.step(); step; step = stepped.step()) {
+            steps.push(step);
+        }
+
+        expect(stepped.isComplete()).toBe(true);
+        expect(stepped.getPendingEvents()).toHaveLength(0);
+        expect(steps.every(step => !step.error)).toBe(true);
+        expect(steps.some(step => step.events.some(e => e.kind === 'split'))).toBe(true);
+        expect(stepped.getSkeletonEdges().map(format)).toEqual(built.getSkeletonEdges().map(format));
+    });
+
+    it('should report the events it takes and why stale ones are skipped', () => {
+        const skeleton = Skeleton.start(polygonOf('rectangle'));
+        const steps = [];
+        for (let step = skeleton.step(); step; step = skeleton.step()) {
+            steps.push(step);
+        }
+        const events = steps.flatMap(step => step.events);
+        const collapse = events.find(e => e.kind === 'edge' && !e.skipped)!;
+
+        expect(collapse.vertices).toHaveLength(2);
+        expect(collapse.edges).toHaveLength(1);
+        expect(collapse.point.minus(collapse.vertices[0].position).length()).toBeCloseTo(0);
+        events.filter(e => e.skipped).forEach(e =>
+            expect(e.skipped).toMatch(/^(Vertex \d+ has already left the wavefront|Edge \d+ was replaced)/));
+        steps.filter(step => step.events.every(e => e.skipped)).forEach(step => expect(step.processed).toBeNull());
+    });
+});
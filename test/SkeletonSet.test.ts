@@ -0,0 +1,62 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import { SkeletonSet } from '../src/lib/skeleton/SkeletonSet';
+import { Polygon } from '../src/lib/skeleton/Polygon';
+import { Vector } from '../src/lib/skeleton/Vector';
+
+function rectangle(x: number, y: number, width: number, height: number): Polygon {
+    return new Polygon([
+        new Vector(x, y),
+        new Vector(x + width, y),
+        new Vector(x + width, y + height),
+        new Vector(x, y + height)
+    ]);
+}
+
+describe('SkeletonSet', () => {
+    beforeAll(() => {
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    afterAll(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('should build one skeleton per component keyed by index', () => {
+        const set = SkeletonSet.build([rectangle(0, 0, 8, 5), rectangle(20, 0, 4, 4)]);
+
+        expect(set.getIds()).toEqual(['0', '1']);
+        expect(set.get('0')!.getSkeletonEdges()).toHaveLength(5);
+        expect(set.get('1')!.getSkeletonEdges()).toHaveLength(4);
+        expect(set.getSkeletonEdges()).toHaveLength(9);
+    });
+
+    it('should keep the ids of keyed components', () => {
+        const set = SkeletonSet.build(new Map([
+            ['house', rectangle(0, 0, 8, 5)],
+            ['garage', rectangle(10, 0, 3, 6)]
+        ]));
+
+        expect(set.getIds()).toEqual(['house', 'garage']);
+        expect(set.get('garage')).toBeDefined();
+    });
+
+    it('should accept a component standing in the courtyard of another', () => {
+        const block = rectangle(0, 0, 30, 30);
+        block.addHole([new Vector(5, 5), new Vector(5, 25), new Vector(25, 25), new Vector(25, 5)]);
+
+        const set = SkeletonSet.build([block, rectangle(10, 10, 5, 5)]);
+
+        expect(set.getIds()).toHaveLength(2);
+    });
+
+    it('should reject overlapping components', () => {
+        expect(() => SkeletonSet.build([rectangle(0, 0, 8, 5), rectangle(4, 2, 8, 5)])).toThrow(/overlap/);
+        expect(() => SkeletonSet.build([rectangle(0, 0, 8, 5), rectangle(1, 1, 2, 2)])).toThrow(/overlap/);
+    });
+
+    it('should name the component that failed to build', () => {
+        const clockwise = new Polygon([new Vector(20, 0), new Vector(20, 5), new Vector(28, 5), new Vector(28, 0)]);
+
+        expect(() => SkeletonSet.build([rectangle(0, 0, 8, 5), clockwise])).toThrow(/Component 1/);
+    });
+});
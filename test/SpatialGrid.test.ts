@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { SpatialGrid } from '../src/lib/skeleton/SpatialGrid';
+import { Vector } from '../src/lib/skeleton/Vector';
+
+describe('SpatialGrid', () => {
+    const grid = () => new SpatialGrid<string>(new Vector(0, 0), new Vector(100, 100), 100);
+
+    it('should find items whose hulls share a cell with the query', () => {
+        const index = grid();
+        index.insert('diagonal', [new Vector(5, 5), new Vector(95, 95)]);
+        index.insert('corner', [new Vector(90, 2), new Vector(98, 8)]);
+
+        expect(index.query([new Vector(50, 48), new Vector(52, 52)])).toEqual(['diagonal']);
+        expect(index.query([new Vector(95, 5)])).toEqual(['corner']);
+        expect(index.query([new Vector(5, 95)])).toEqual([]);
+    });
+
+    it('should cover the inside of a hull, not only its outline', () => {
+        const index = grid();
+        index.insert('triangle', [new Vector(10, 10), new Vector(90, 10), new Vector(50, 90)]);
+
+        expect(index.query([new Vector(50, 40)])).toEqual(['triangle']);
+        expect(index.query([new Vector(10, 80)])).toEqual([]);
+    });
+
+    it('should move and remove items', () => {
+        const index = grid();
+        index.insert('item', [new Vector(5, 5)]);
+        index.insert('item', [new Vector(95, 95)]);
+
+        expect(index.query([new Vector(5, 5)])).toEqual([]);
+        expect(index.query([new Vector(95, 95)])).toEqual(['item']);
+
+        index.remove('item');
+        expect(index.query([new Vector(95, 95)])).toEqual([]);
+        expect(index.size()).toBe(0);
+    });
+
+    it('should keep points outside the bounds in the border cells', () => {
+        const index = grid();
+        index.insert('outside', [new Vector(-20, 50), new Vector(-10, 50)]);
+
+        expect(index.query([new Vector(1, 50)])).toEqual(['outside']);
+    });
+});
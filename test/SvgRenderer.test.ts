@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { SvgRenderer } from '../src/lib/render/SvgRenderer';
+
+describe('SvgRenderer', () => {
+    it('should write a standalone document sized to the view', () => {
+        const svg = new SvgRenderer(600, 400).toString();
+
+        expect(svg.startsWith('<?xml version="1.0" encoding="UTF-8"?>\n<svg xmlns="http://www.w3.org/2000/svg"')).toBe(true);
+        expect(svg).toContain('width="600" height="400" viewBox="0 0 600 400"');
+        expect(svg.trim().endsWith('</svg>')).toBe(true);
+    });
+
+    it('should group primitives by layer', () => {
+        const renderer = new SvgRenderer(100, 100);
+        renderer.beginLayer('skeleton');
+        renderer.polyline([{ x: 0, y: 0 }, { x: 10.126, y: 20 }], { color: '#FF0000', width: 2 });
+        renderer.polyline([{ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 10, y: 10 }], { color: '#0000FF', width: 1 }, true);
+        renderer.endLayer();
+        renderer.beginLayer('labels');
+        renderer.circle({ x: 5, y: 5 }, 2, { fill: '#FFFF00' });
+        renderer.rect(1, 2, 3, 4, '#800080');
+        renderer.text('(1.0,2.0) <a & b>', { x: 8, y: 5 }, { color: '#000000', size: 12, align: 'right' });
+        renderer.endLayer();
+
+        const lines = renderer.toString().split('\n');
+        expect(lines.slice(2, -2)).toEqual([
+            '  <g id="skeleton">',
+            '    <polyline points="0,0 10.13,20" fill="none" stroke="#FF0000" stroke-width="2"/>',
+            '    <polygon points="0,0 10,0 10,10" fill="none" stroke="#0000FF" stroke-width="1"/>',
+            '  </g>',
+            '  <g id="labels">',
+            '    <circle cx="5" cy="5" r="2" fill="#FFFF00"/>',
+            '    <rect x="1" y="2" width="3" height="4" fill="#800080"/>',
+            '    <text x="8" y="5" fill="#000000" font-family="monospace" font-size="12" text-anchor="end" ' +
+                'dominant-baseline="middle">(1.0,2.0) &lt;a &amp; b&gt;</text>',
+            '  </g>'
+        ]);
+    });
+
+    it('should parse as XML and start over when cleared', () => {
+        const renderer = new SvgRenderer(50, 50);
+        renderer.beginLayer('original');
+        renderer.circle({ x: 1, y: 1 }, 1, { stroke: { color: '#FF8C00', width: 2 } });
+        expect(() => renderer.toString()).toThrow(/still open/);
+        renderer.endLayer();
+
+        const document = new DOMParser().parseFromString(renderer.toString(), 'image/svg+xml');
+        expect(document.querySelectorAll('g#original circle')).toHaveLength(1);
+
+        renderer.clear();
+        expect(renderer.toString()).not.toContain('<g');
+        expect(() => renderer.endLayer()).toThrow(/No SVG layer/);
+    });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import { Wkt } from '../src/lib/io/Wkt';
+import { Wkb } from '../src/lib/io/Wkb';
+import { SimpleFeatures, SimpleGeometry } from '../src/lib/io/SimpleFeatures';
+import { Skeleton } from '../src/lib/skeleton/Skeleton';
+import { Polygon } from '../src/lib/skeleton/Polygon';
+import { Vector } from '../src/lib/skeleton/Vector';
+
+const SQUARE_WITH_HOLE = 'POLYGON ((0 0, 10 0, 10 10, 0 10, 0 0), (4 4, 4 6, 6 6, 6 4, 4 4))';
+
+describe('WKT', () => {
+    it('should read polygons with holes and write them back', () => {
+        const [polygon, ...rest] = Wkt.readPolygons(SQUARE_WITH_HOLE);
+
+        expect(rest).toEqual([]);
+        expect(polygon.vertices).toHaveLength(4);
+        expect(polygon.holes).toHaveLength(1);
+        expect(polygon.holes[0].isClockwise()).toBe(true);
+        expect(Wkt.write(SimpleFeatures.fromPolygon(polygon))).toBe(SQUARE_WITH_HOLE);
+    });
+
+    it('should read every supported type, in any case and with Z values', () => {
+        const geometries: [string, SimpleGeometry][] = [
+            ['linestring(1 2,3 4)', { kind: 'LineString', points: [[1, 2], [3, 4]] }],
+            ['MULTILINESTRING ((0 0, 1 1), (2 2, 3 3))', { kind: 'MultiLineString', lines: [[[0, 0], [1, 1]], [[2, 2], [3, 3]]] }],
+            ['SRID=4326;POLYGON Z ((0 0 1, 1 0 1, 0 1 2, 0 0 1))', { kind: 'Polygon', rings: [[[0, 0, 1], [1, 0, 1], [0, 1, 2], [0, 0, 1]]] }],
+            ['MULTIPOLYGON EMPTY', { kind: 'MultiPolygon', polygons: [] }]
+        ];
+        for (const [text, geometry] of geometries) {
+            expect(Wkt.parse(text)).toEqual(geometry);
+        }
+        expect(Wkt.write(Wkt.parse('POLYGON Z ((0 0 1, 1 0 1, 0 1 2, 0 0 1))'))).toBe('POLYGON Z ((0 0 1, 1 0 1, 0 1 2, 0 0 1))');
+    });
+
+    it('should turn multipolygons into one polygon each, outer rings counterclockwise', () => {
+        const polygons = Wkt.readPolygons('MULTIPOLYGON (((0 0, 0 4, 4 4, 4 0, 0 0)), ((10 0, 14 0, 14 4, 10 4, 10 0)))');
+
+        expect(polygons).toHaveLength(2);
+        polygons.forEach(polygon => expect(polygon.isClockwise()).toBe(false));
+    });
+
+    it('should report malformed text', () => {
+        expect(() => Wkt.parse('POINT (1 2)')).toThrow(/Unsupported WKT geometry type: POINT/);
+        expect(() => Wkt.parse('POLYGON ((0 0, 1 0, 0 1, 0 0)')).toThrow(/end of WKT/);
+        expect(() => Wkt.parse('LINESTRING (0 0, 1 1) x')).toThrow(/after the geometry/);
+        expect(() => Wkt.parse('LINESTRING (0 0, 1 #)')).toThrow(/Unexpected WKT at offset/);
+        expect(() => Wkt.readPolygons('LINESTRING (0 0, 1 1)')).toThrow(/Polygon or MultiPolygon/);
+    });
+
+    it('should export skeleton edges and faces with the given precision', () => {
+        const skeleton = Skeleton.build(new Polygon([new Vector(0, 0), new Vector(3, 0), new Vector(3, 1), new Vector(0, 1)]));
+
+        const edges = Wkt.write(SimpleFeatures.fromEdges(skeleton.getSkeletonEdges()), 2);
+        expect(edges.startsWith('MULTILINESTRING ((')).toBe(true);
+        expect(edges).toContain('0.5 0.5');
+        expect(edges).not.toMatch(/\d\.\d{3}/);
+
+        const faces = Wkt.parse(Wkt.write(SimpleFeatures.fromFaces(skeleton.getFaces()), 3));
+        expect(faces.kind).toBe('MultiPolygon');
+        expect(SimpleFeatures.toPolygons(faces).map(face => face.area()).reduce((a, b) => a + b)).toBeCloseTo(3, 9);
+    });
+});
+
+describe('WKB', () => {
+    it('should write and read back polygons with holes', () => {
+        const geometry = Wkt.parse(SQUARE_WITH_HOLE);
+        const bytes = Wkb.write(geometry);
+
+        // Byte order, type, ring count, then 5 and 5 points of two doubles
+        expect(bytes.length).toBe(1 + 4 + 4 + 2 * (4 + 5 * 16));
+        expect(Wkb.parse(bytes)).toEqual(geometry);
+        expect(Wkb.readPolygons(Wkb.toHex(bytes))[0].holes).toHaveLength(1);
+    });
+
+    it('should read big-endian ISO and PostGIS extended hex', () => {
+        // LINESTRING (1 2, 3 4), big-endian
+        const big = '00' + '00000002' + '00000002' +
+            '3FF0000000000000' + '4000000000000000' + '4008000000000000' + '4010000000000000';
+        expect(Wkb.parse(big)).toEqual({ kind: 'LineString', points: [[1, 2], [3, 4]] });
+
+        const geometry: SimpleGeometry = { kind: 'MultiPolygon', polygons: [[[[0, 0, 5], [1, 0, 5], [0, 1, 5], [0, 0, 5]]]] };
+        const extended = Wkb.write(geometry, { srid: 4326 });
+        expect(Wkb.toHex(extended).slice(0, 18)).toBe('01060000A0E6100000');
+        expect(Wkb.parse(extended)).toEqual(geometry);
+        expect(Wkb.parse(Wkb.write(geometry))).toEqual(geometry);
+    });
+
+    it('should round to the given precision and export skeleton edges', () => {
+        const line: SimpleGeometry = { kind: 'LineString', points: [[1 / 3, 2 / 3], [1, 1]] };
+        expect(Wkb.parse(Wkb.write(line, { precision: 2 }))).toEqual({ kind: 'LineString', points: [[0.33, 0.67], [1, 1]] });
+
+        const skeleton = Skeleton.build(new Polygon([new Vector(0, 0), new Vector(4, 0), new Vector(4, 2), new Vector(0, 2)]));
+        const edges = Wkb.parse(Wkb.write(SimpleFeatures.fromEdges(skeleton.getSkeletonEdges())));
+        expect(edges.kind).toBe('MultiLineString');
+        expect((edges as { lines: number[][][] }).lines).toHaveLength(skeleton.getSkeletonEdges().length);
+    });
+
+    it('should reject truncated and unsupported input', () => {
+        const bytes = Wkb.write(Wkt.parse(SQUARE_WITH_HOLE));
+        expect(() => Wkb.parse(bytes.slice(0, -1))).toThrow(/end of WKB/);
+        expect(() => Wkb.parse('0101000000000000000000F03F000000000000F03F')).toThrow(/Unsupported WKB geometry type: 1/);
+        expect(() => Wkb.parse('01XY')).toThrow(/hexadecimal/);
+    });
+});